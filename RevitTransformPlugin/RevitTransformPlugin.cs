@@ -51,6 +51,9 @@ namespace RevitTransformPlugin
     [Autodesk.Revit.Attributes.Transaction(Autodesk.Revit.Attributes.TransactionMode.Manual)]
     public class TransformApp : IExternalDBApplication
     {
+        // Units marker sent with transforms whose positions are already in Revit internal feet
+        private const string RevitUnits = "revit-internal-feet";
+
         // Static constructor - runs when type is first loaded
         static TransformApp()
         {
@@ -220,6 +223,10 @@ namespace RevitTransformPlugin
                             Console.WriteLine($"  Transform UniqueId: {transformData.UniqueId ?? "not provided"}");
                             Console.WriteLine($"  ElementName: {transformData.ElementName ?? "not provided"}");
                             Console.WriteLine($"  Translation Delta: ({transformData.Translation.X:F3}, {transformData.Translation.Y:F3}, {transformData.Translation.Z:F3}) ft");
+                            if (transformData.Rotation != null)
+                            {
+                                Console.WriteLine($"  Rotation: {transformData.Rotation.Angle * 180.0 / Math.PI:F2}° about ({transformData.Rotation.Axis.X:F3}, {transformData.Rotation.Axis.Y:F3}, {transformData.Rotation.Axis.Z:F3})");
+                            }
 
                             // Use transform.ElementId to look up the element
                             ElementId elementId = new ElementId(transformData.ElementId);
@@ -254,7 +261,18 @@ namespace RevitTransformPlugin
 
                             Console.WriteLine($"✓ Element found: {element.Name ?? "Unnamed"} (Category: {element.Category?.Name ?? "Unknown"}, ElementId: {element.Id.IntegerValue})");
 
-                            // Create translation vector (already in feet from frontend)
+                            // Rotate first (about the pivot), then translate - same order as the viewer preview
+                            if (transformData.Rotation != null)
+                            {
+                                if (!RotateElement(doc, element, transformData.Rotation, transformData.Units == RevitUnits))
+                                {
+                                    failCount++;
+                                    continue;
+                                }
+                            }
+
+                            // Translation is in Revit internal feet: the frontend converts from viewer units
+                            // (model unit scale and global offset) before sending
                             XYZ offset = new XYZ(
                                 transformData.Translation.X,
                                 transformData.Translation.Y,
@@ -341,6 +359,53 @@ namespace RevitTransformPlugin
                 return false;
             }
         }
+
+        /// <summary>
+        /// Rotates an element about a line through the payload pivot.
+        /// Older clients sent the pivot in viewer coordinates; for those the equivalent point in the
+        /// Revit model (the centre of the element's bounding box) is used instead.
+        /// </summary>
+        private static bool RotateElement(Document doc, Element element, RotationData rotation, bool pivotInRevitUnits)
+        {
+            XYZ axisDirection = new XYZ(rotation.Axis.X, rotation.Axis.Y, rotation.Axis.Z);
+            if (axisDirection.IsZeroLength())
+            {
+                Console.WriteLine($"✗ Cannot rotate {element.Name}: rotation axis is zero");
+                return false;
+            }
+
+            XYZ pivot;
+            if (pivotInRevitUnits && rotation.Pivot != null)
+            {
+                pivot = new XYZ(rotation.Pivot.X, rotation.Pivot.Y, rotation.Pivot.Z);
+            }
+            else
+            {
+                BoundingBoxXYZ bounds = element.get_BoundingBox(null);
+                pivot = bounds != null
+                    ? (bounds.Min + bounds.Max) * 0.5
+                    : (element.Location as LocationPoint)?.Point;
+            }
+
+            if (pivot == null)
+            {
+                Console.WriteLine($"✗ Cannot rotate {element.Name}: no bounding box or location point");
+                return false;
+            }
+
+            try
+            {
+                Line axis = Line.CreateUnbound(pivot, axisDirection.Normalize());
+                ElementTransformUtils.RotateElement(doc, element.Id, axis, rotation.Angle);
+                Console.WriteLine($"✓ Rotated {element.Name}: {rotation.Angle * 180.0 / Math.PI:F2}° about pivot ({pivot.X:F3}, {pivot.Y:F3}, {pivot.Z:F3}) ft");
+                return true;
+            }
+            catch (Exception rotateEx)
+            {
+                Console.WriteLine($"✗ Failed to rotate {element.Name}: {rotateEx.Message}");
+                return false;
+            }
+        }
     }
 
     /// <summary>
@@ -406,9 +471,11 @@ namespace RevitTransformPlugin
                         ElementId = ExtractInt(valueContent, "elementId"),
                         UniqueId = ExtractString(valueContent, "uniqueId"),
                         ElementName = ExtractString(valueContent, "elementName"),
+                        Units = ExtractString(valueContent, "units"),
                         OriginalPosition = ExtractVector3(valueContent, "originalPosition"),
                         NewPosition = ExtractVector3(valueContent, "newPosition"),
-                        Translation = ExtractVector3(valueContent, "translation")
+                        Translation = ExtractVector3(valueContent, "translation"),
+                        Rotation = ExtractRotation(valueContent)
                     };
 
                     wrapper.Transforms[key] = transformData;
@@ -423,6 +490,28 @@ namespace RevitTransformPlugin
             return wrapper;
         }
 
+        // "rotation": { "axis": {x,y,z}, "angle": radians, "pivot": {x,y,z} } - optional
+        private static RotationData ExtractRotation(string content)
+        {
+            int keyPos = content.IndexOf("\"rotation\"");
+            if (keyPos == -1) return null;
+
+            int braceStart = content.IndexOf('{', keyPos);
+            if (braceStart == -1) return null;
+
+            int braceEnd = FindMatchingBrace(content, braceStart);
+            if (braceEnd == -1) return null;
+
+            string rotationContent = content.Substring(braceStart + 1, braceEnd - braceStart - 1);
+
+            return new RotationData
+            {
+                Axis = ExtractVector3(rotationContent, "axis"),
+                Angle = ExtractDouble(rotationContent, "angle"),
+                Pivot = ExtractVector3(rotationContent, "pivot")
+            };
+        }
+
         private static int FindMatchingBrace(string str, int openPos)
         {
             int depth = 1;
@@ -560,7 +649,7 @@ namespace RevitTransformPlugin
 
     // Data models for JSON deserialization
     // Edge function wraps transforms in an object
-    // Format: { "transforms": { "uniqueId": { "elementId": 123, "uniqueId": "...", "translation": {...} } } }
+    // Format: { "transforms": { "uniqueId": { "elementId": 123, "uniqueId": "...", "translation": {...}, "rotation": {...} } } }
     public class TransformsWrapper
     {
         public Dictionary<string, ElementTransformData> Transforms { get; set; }
@@ -571,9 +660,18 @@ namespace RevitTransformPlugin
         public int ElementId { get; set; }
         public string UniqueId { get; set; }
         public string ElementName { get; set; }
+        public string Units { get; set; }  // "revit-internal-feet" from current clients
         public Vector3 OriginalPosition { get; set; }
         public Vector3 NewPosition { get; set; }
         public Vector3 Translation { get; set; }
+        public RotationData Rotation { get; set; }  // null when the element was only moved
+    }
+
+    public class RotationData
+    {
+        public Vector3 Axis { get; set; }
+        public double Angle { get; set; }  // Radians
+        public Vector3 Pivot { get; set; }
     }
 
     public class Vector3
@@ -0,0 +1,295 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Building2, FolderClosed, FolderOpen, FileBox, History } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  isViewableFileName,
+  toItemVersion,
+  type AccHub,
+  type AccProject,
+  type DmContents,
+  type DmResource,
+  type ModelSelection,
+} from "@/lib/acc-files";
+
+type BrowserNodeKind = "hub" | "project" | "folder" | "item" | "version";
+
+interface BrowserNode {
+  kind: BrowserNodeKind;
+  id: string;
+  name: string;
+  hubId?: string;
+  projectId?: string;
+  folderId?: string;
+  itemId?: string;
+  itemName?: string;
+  tipVersionUrn?: string;
+  detail?: string;
+}
+
+interface AccFileBrowserProps {
+  hub: AccHub | null;
+  projects: AccProject[];
+  selectedVersionUrn: string | null;
+  getToken: () => Promise<string>;
+  onSelectVersion: (selection: ModelSelection) => void;
+}
+
+const NODE_ICONS = {
+  hub: Building2,
+  project: Building2,
+  folder: FolderClosed,
+  item: FileBox,
+  version: History,
+};
+
+const toFolderAndItemNodes = (data: DmContents, parent: BrowserNode): BrowserNode[] => {
+  const tipVersions = new Map(
+    (data.included || []).map((version) => [version.id, version])
+  );
+
+  return (data.data || [])
+    .filter((entry) =>
+      entry.type === "folders" ||
+      (entry.type === "items" && isViewableFileName(entry.attributes?.displayName))
+    )
+    .map((entry): BrowserNode => {
+      if (entry.type === "folders") {
+        return {
+          kind: "folder",
+          id: entry.id,
+          name: entry.attributes?.displayName || entry.attributes?.name,
+          hubId: parent.hubId,
+          projectId: parent.projectId,
+          folderId: entry.id,
+        };
+      }
+
+      const tipVersionUrn = entry.relationships?.tip?.data?.id;
+      const tipVersion = tipVersions.get(tipVersionUrn);
+      return {
+        kind: "item",
+        id: entry.id,
+        name: entry.attributes?.displayName,
+        hubId: parent.hubId,
+        projectId: parent.projectId,
+        folderId: parent.folderId,
+        itemId: entry.id,
+        tipVersionUrn,
+        detail: tipVersion ? `V${tipVersion.attributes?.versionNumber}` : undefined,
+      };
+    });
+};
+
+const TreeNode = ({
+  node,
+  depth,
+  selectedVersionUrn,
+  getToken,
+  onSelectVersion,
+  staticChildren,
+}: {
+  node: BrowserNode;
+  depth: number;
+  selectedVersionUrn: string | null;
+  getToken: () => Promise<string>;
+  onSelectVersion: (selection: ModelSelection) => void;
+  // Children known up front (projects under the hub); the node then never fetches
+  staticChildren?: BrowserNode[];
+}) => {
+  const [expanded, setExpanded] = useState(!!staticChildren);
+  const [loadedChildren, setChildren] = useState<BrowserNode[] | null>(null);
+  const children = staticChildren || loadedChildren;
+  const [nextPage, setNextPage] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const isLeaf = node.kind === "version";
+  const isSelected = node.kind === "version"
+    ? node.id === selectedVersionUrn
+    : node.kind === "item" && node.tipVersionUrn === selectedVersionUrn;
+
+  // Fetch one page of children for this node; page > 0 appends to what is already loaded
+  const loadChildren = async (page = 0) => {
+    setLoading(true);
+    try {
+      const token = await getToken();
+      let loaded: BrowserNode[] = [];
+      let more: number | null = null;
+
+      if (node.kind === "project") {
+        const { data, error } = await supabase.functions.invoke("autodesk-folder-contents", {
+          body: { token, projectId: node.projectId, hubId: node.hubId },
+        });
+        if (error) throw error;
+        loaded = (data.data || []).map((folder: DmResource): BrowserNode => ({
+          kind: "folder",
+          id: folder.id,
+          name: folder.attributes?.displayName || folder.attributes?.name,
+          hubId: node.hubId,
+          projectId: node.projectId,
+          folderId: folder.id,
+        }));
+      } else if (node.kind === "folder") {
+        const { data, error } = await supabase.functions.invoke("autodesk-folder-contents", {
+          body: { token, projectId: node.projectId, hubId: node.hubId, folderId: node.folderId, pageNumber: page },
+        });
+        if (error) throw error;
+        loaded = toFolderAndItemNodes(data, node);
+        more = data.nextPage ?? null;
+      } else if (node.kind === "item") {
+        const { data, error } = await supabase.functions.invoke("autodesk-item-versions", {
+          body: { token, projectId: node.projectId, hubId: node.hubId, itemId: node.itemId },
+        });
+        if (error) throw error;
+        loaded = (data.data || []).map(toItemVersion).map((version): BrowserNode => ({
+          kind: "version",
+          id: version.id,
+          name: `V${version.versionNumber}`,
+          hubId: node.hubId,
+          projectId: node.projectId,
+          folderId: node.folderId,
+          itemId: node.itemId,
+          itemName: node.name,
+          detail: version.lastModifiedTime
+            ? new Date(version.lastModifiedTime).toLocaleDateString()
+            : undefined,
+        }));
+      }
+
+      setChildren((prev) => (page > 0 && prev ? [...prev, ...loaded] : loaded));
+      setNextPage(more);
+    } catch (error) {
+      console.error(`Failed to load ${node.kind} ${node.id}:`, error);
+      toast.error(`Failed to load ${node.name}: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = () => {
+    if (isLeaf) return;
+    const nextExpanded = !expanded;
+    setExpanded(nextExpanded);
+    if (nextExpanded && children === null) {
+      loadChildren();
+    }
+  };
+
+  const handleSelect = () => {
+    if (node.kind === "version") {
+      onSelectVersion({
+        hubId: node.hubId || null,
+        projectId: node.projectId!,
+        folderUrn: node.folderId || null,
+        itemId: node.itemId!,
+        versionUrn: node.id,
+        fileName: node.itemName || node.name,
+      });
+    } else if (node.kind === "item" && node.tipVersionUrn) {
+      // Clicking the file name opens the latest version; the chevron lists older ones
+      onSelectVersion({
+        hubId: node.hubId || null,
+        projectId: node.projectId!,
+        folderUrn: node.folderId || null,
+        itemId: node.itemId!,
+        versionUrn: node.tipVersionUrn,
+        fileName: node.name,
+      });
+    } else {
+      toggle();
+    }
+  };
+
+  const Icon = node.kind === "folder" && expanded ? FolderOpen : NODE_ICONS[node.kind];
+
+  return (
+    <div>
+      <div
+        className={`flex items-center gap-1 rounded px-1 py-1 text-sm cursor-pointer transition-colors ${
+          isSelected ? "bg-primary/10 text-primary" : "hover:bg-secondary text-foreground"
+        }`}
+        style={{ paddingLeft: depth * 12 + 4 }}
+      >
+        <button
+          type="button"
+          onClick={toggle}
+          className={`h-4 w-4 flex-shrink-0 text-muted-foreground ${isLeaf ? "invisible" : ""}`}
+          aria-label={expanded ? "Collapse" : "Expand"}
+        >
+          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </button>
+        <Icon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+        <span onClick={handleSelect} className="flex-1 truncate" title={node.name}>
+          {node.name}
+        </span>
+        {node.detail && <span className="text-xs text-muted-foreground">{node.detail}</span>}
+      </div>
+
+      {expanded && (
+        <div>
+          {children?.map((child) => (
+            <TreeNode
+              key={child.id}
+              node={child}
+              depth={depth + 1}
+              selectedVersionUrn={selectedVersionUrn}
+              getToken={getToken}
+              onSelectVersion={onSelectVersion}
+            />
+          ))}
+          {loading && (
+            <p className="text-xs text-muted-foreground py-1" style={{ paddingLeft: (depth + 1) * 12 + 24 }}>
+              Loading...
+            </p>
+          )}
+          {!loading && children?.length === 0 && (
+            <p className="text-xs text-muted-foreground py-1" style={{ paddingLeft: (depth + 1) * 12 + 24 }}>
+              Empty
+            </p>
+          )}
+          {!loading && nextPage !== null && (
+            <button
+              type="button"
+              onClick={() => loadChildren(nextPage)}
+              className="text-xs text-primary hover:underline py-1"
+              style={{ paddingLeft: (depth + 1) * 12 + 24 }}
+            >
+              Load more...
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Lazy-loading tree of hubs → projects → folders → items → versions.
+ * Each level is only fetched when it is expanded.
+ */
+export const AccFileBrowser = ({ hub, projects, selectedVersionUrn, getToken, onSelectVersion }: AccFileBrowserProps) => {
+  if (!hub) {
+    return <p className="text-sm text-muted-foreground">No hub available</p>;
+  }
+
+  const hubNode: BrowserNode = { kind: "hub", id: hub.id, name: hub.name };
+  const projectNodes = projects.map((project): BrowserNode => ({
+    kind: "project",
+    id: project.id,
+    name: project.attributes.name,
+    hubId: hub.id,
+    projectId: project.id,
+  }));
+
+  return (
+    <TreeNode
+      key={hub.id}
+      node={hubNode}
+      depth={0}
+      selectedVersionUrn={selectedVersionUrn}
+      getToken={getToken}
+      onSelectVersion={onSelectVersion}
+      staticChildren={projectNodes}
+    />
+  );
+};
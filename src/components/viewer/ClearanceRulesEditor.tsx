@@ -0,0 +1,76 @@
+import { useState, type FormEvent } from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { ClearanceRule, ClearanceSettings } from "@/lib/clash-detection";
+
+interface ClearanceRulesEditorProps {
+  settings: ClearanceSettings;
+  onChange: (settings: ClearanceSettings) => void;
+}
+
+const NEW_RULE_GAP_MM = 900;
+
+/**
+ * Minimum clearance per Revit category, edited in the save dialog.
+ */
+export const ClearanceRulesEditor = ({ settings, onChange }: ClearanceRulesEditorProps) => {
+  const [newCategory, setNewCategory] = useState("");
+
+  const updateRule = (index: number, patch: Partial<ClearanceRule>) =>
+    onChange({ rules: settings.rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)) });
+
+  const removeRule = (index: number) =>
+    onChange({ rules: settings.rules.filter((_, i) => i !== index) });
+
+  const handleAdd = (event: FormEvent) => {
+    event.preventDefault();
+    const category = newCategory.trim();
+    if (!category || settings.rules.some((rule) => rule.category === category)) return;
+
+    onChange({ rules: [...settings.rules, { category, minGapMm: NEW_RULE_GAP_MM }] });
+    setNewCategory("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-normal">Minimum clearance between categories</Label>
+      <div className="max-h-40 space-y-1 overflow-y-auto">
+        {settings.rules.map((rule, index) => (
+          <div key={rule.category} className="flex items-center gap-2">
+            <span className="flex-1 truncate text-sm" title={rule.category}>{rule.category}</span>
+            <Input
+              type="number"
+              min={0}
+              step={50}
+              value={rule.minGapMm}
+              onChange={(event) => {
+                const minGapMm = parseFloat(event.target.value);
+                if (Number.isFinite(minGapMm) && minGapMm >= 0) updateRule(index, { minGapMm });
+              }}
+              className="h-8 w-24"
+              aria-label={`${rule.category} clearance in mm`}
+            />
+            <span className="text-sm text-muted-foreground">mm</span>
+            <Button variant="ghost" size="icon" onClick={() => removeRule(index)} className="h-6 w-6" title="Remove rule">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      <form onSubmit={handleAdd} className="flex items-center gap-2">
+        <Input
+          value={newCategory}
+          onChange={(event) => setNewCategory(event.target.value)}
+          placeholder="Category, e.g. Casework"
+          className="h-8 flex-1"
+        />
+        <Button type="submit" variant="outline" size="sm" disabled={!newCategory.trim()}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </form>
+    </div>
+  );
+};
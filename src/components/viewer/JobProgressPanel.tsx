@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { CheckCircle2, Circle, ExternalLink, Loader2, X, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { accFileUrl } from "@/lib/acc-files";
+import {
+  canRetryPublish,
+  isJobFinished,
+  JOB_STAGES,
+  type Job,
+  type JobResult,
+  type JobStage,
+  type WorkItemStats,
+} from "@/hooks/use-job";
+
+interface JobProgressPanelProps {
+  job: Job;
+  isCancelling: boolean;
+  isRetrying: boolean;
+  onCancel: () => void;
+  onRetry: () => void;
+  onDismiss: () => void;
+}
+
+const STAGE_LABELS: Record<JobStage, string> = {
+  staging: "Copying model to OSS",
+  queued: "Queued",
+  downloading: "Downloading model",
+  processing: "Applying transforms in Revit",
+  uploading: "Uploading result",
+  versioning: "Creating ACC version",
+};
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+/**
+ * Progress of a Design Automation save, following its job row: the stage reached, time taken,
+ * the WorkItem's transfer stats and, once published, a link to the result in ACC.
+ */
+export const JobProgressPanel = ({ job, isCancelling, isRetrying, onCancel, onRetry, onDismiss }: JobProgressPanelProps) => {
+  const finished = isJobFinished(job);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (finished) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [finished]);
+
+  const startedAt = new Date(job.created_at).getTime();
+  const endedAt = job.completed_at ? new Date(job.completed_at).getTime() : now;
+  const currentIndex = JOB_STAGES.indexOf(job.stage as JobStage);
+  const stats = (job.work_item_stats || {}) as WorkItemStats;
+  const result = job.status === "completed" ? (job.result as unknown as JobResult) : null;
+
+  const title =
+    job.status === "completed"
+      ? "Saved to ACC"
+      : job.status === "failed"
+        ? "Save failed"
+        : job.status === "cancelled"
+          ? "Save cancelled"
+          : "Saving to ACC";
+
+  return (
+    <div className="absolute bottom-4 right-4 w-72 space-y-3 bg-card border border-border rounded-lg p-4 shadow-lg">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-foreground">{title}</h3>
+        <div className="flex items-center gap-1">
+          <span className="text-xs text-muted-foreground tabular-nums">{formatElapsed(endedAt - startedAt)}</span>
+          {finished && (
+            <Button variant="ghost" size="icon" onClick={onDismiss} className="h-6 w-6">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <ol className="space-y-1.5">
+        {JOB_STAGES.map((stage, index) => {
+          const done = job.status === "completed" || index < currentIndex;
+          const current = index === currentIndex && !done;
+          const failedHere = current && (job.status === "failed" || job.status === "cancelled");
+
+          return (
+            <li
+              key={stage}
+              className={`flex items-center gap-2 text-sm ${done || current ? "text-foreground" : "text-muted-foreground"}`}
+            >
+              {done ? (
+                <CheckCircle2 className="h-4 w-4 text-primary" />
+              ) : failedHere ? (
+                <XCircle className="h-4 w-4 text-destructive" />
+              ) : current ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Circle className="h-4 w-4" />
+              )}
+              {STAGE_LABELS[stage]}
+            </li>
+          );
+        })}
+      </ol>
+
+      {(stats.bytesDownloaded !== undefined || stats.bytesUploaded !== undefined) && (
+        <div className="text-xs text-muted-foreground">
+          {stats.bytesDownloaded !== undefined && <div>Downloaded: {formatBytes(stats.bytesDownloaded)}</div>}
+          {stats.bytesUploaded !== undefined && <div>Uploaded: {formatBytes(stats.bytesUploaded)}</div>}
+        </div>
+      )}
+
+      {job.status === "failed" && job.error && (
+        <p className="text-xs text-destructive break-words">{job.error}</p>
+      )}
+
+      {/* Publishing to ACC can't be taken back, so only a running WorkItem can be cancelled */}
+      {job.status === "processing" && (
+        <Button variant="outline" size="sm" onClick={onCancel} disabled={isCancelling} className="w-full">
+          {isCancelling ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Cancelling...
+            </>
+          ) : (
+            "Cancel"
+          )}
+        </Button>
+      )}
+
+      {canRetryPublish(job) && (
+        <Button variant="outline" size="sm" onClick={onRetry} disabled={isRetrying} className="w-full">
+          {isRetrying ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Retrying...
+            </>
+          ) : (
+            "Retry upload"
+          )}
+        </Button>
+      )}
+
+      {result && (
+        <div className="space-y-1 text-sm">
+          <div className="text-foreground">
+            {result.createdNewVersion
+              ? `${job.transform_count} transform(s) saved as V${result.versionNumber} of ${result.fileName}`
+              : `${job.transform_count} transform(s) saved to new file ${result.fileName}`}
+          </div>
+          {job.folder_urn && (
+            <a
+              href={accFileUrl(job.project_id, job.folder_urn, result.itemId)}
+              target="_blank"
+              rel="noreferrer"
+              className="inline-flex items-center gap-1 text-primary hover:underline"
+            >
+              Open in ACC
+              <ExternalLink className="h-3.5 w-3.5" />
+            </a>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
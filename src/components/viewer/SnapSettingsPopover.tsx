@@ -0,0 +1,103 @@
+import { Magnet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ANGLE_STEP_PRESETS, GRID_PRESETS, type SnapSettings } from "@/lib/snapping";
+
+interface SnapSettingsPopoverProps {
+  settings: SnapSettings;
+  onChange: (settings: SnapSettings) => void;
+}
+
+/**
+ * Toolbar button + popover for grid, angle and geometry snapping of transform edits.
+ */
+export const SnapSettingsPopover = ({ settings, onChange }: SnapSettingsPopoverProps) => {
+  const update = (patch: Partial<SnapSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant={settings.enabled ? "default" : "ghost"}
+          size="icon"
+          className="hover:bg-secondary"
+          title="Snapping"
+        >
+          <Magnet className="h-5 w-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="snap-enabled">Snapping</Label>
+          <Switch
+            id="snap-enabled"
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => update({ enabled })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Grid</Label>
+          <Select
+            value={settings.gridPresetId}
+            onValueChange={(gridPresetId) => update({ gridPresetId })}
+            disabled={!settings.enabled}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectLabel>Metric</SelectLabel>
+                {GRID_PRESETS.filter((preset) => preset.system === "metric").map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.label}</SelectItem>
+                ))}
+              </SelectGroup>
+              <SelectGroup>
+                <SelectLabel>Imperial</SelectLabel>
+                {GRID_PRESETS.filter((preset) => preset.system === "imperial").map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.label}</SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Angle</Label>
+          <Select
+            value={String(settings.angleStepDegrees)}
+            onValueChange={(value) => update({ angleStepDegrees: Number(value) })}
+            disabled={!settings.enabled}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANGLE_STEP_PRESETS.map((degrees) => (
+                <SelectItem key={degrees} value={String(degrees)}>{degrees}°</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="snap-geometry">Snap to geometry</Label>
+          <Switch
+            id="snap-geometry"
+            checked={settings.geometry}
+            onCheckedChange={(geometry) => update({ geometry })}
+            disabled={!settings.enabled}
+          />
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Hold Alt while dragging or nudging to place freely.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+};
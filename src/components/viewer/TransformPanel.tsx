@@ -0,0 +1,140 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Crosshair } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  INPUT_UNIT_LABELS,
+  feetToInputValue,
+  formatPoint,
+  fromRevitPoint,
+  fromRevitVector,
+  inputValueToFeet,
+  toRevitPoint,
+  type CoordinateSystem,
+  type LengthUnit,
+} from "@/lib/coordinates";
+import type { Vec3 } from "@/lib/transform-math";
+
+// What the TransformExtension reports about the current selection
+export interface TransformSelection {
+  dbIds: number[];
+  name: string;
+  center: Vec3; // bounding-box centre (the gizmo position), viewer world space
+}
+
+type InputMode = "absolute" | "relative";
+
+interface TransformPanelProps {
+  selection: TransformSelection;
+  coordinateSystem: CoordinateSystem;
+  lengthUnit: LengthUnit;
+  // Both in viewer world space
+  onMoveTo: (center: Vec3) => void;
+  onMoveBy: (offset: Vec3) => void;
+}
+
+const AXES = ["x", "y", "z"] as const;
+
+const formatCoordinate = (value: number) => String(parseFloat(value.toFixed(4)));
+
+// Revit feet -> field text in the preferred unit
+const toFields = (feet: Vec3, unit: LengthUnit) => ({
+  x: formatCoordinate(feetToInputValue(feet.x, unit)),
+  y: formatCoordinate(feetToInputValue(feet.y, unit)),
+  z: formatCoordinate(feetToInputValue(feet.z, unit)),
+});
+
+const ZERO_FIELDS = { x: "0", y: "0", z: "0" };
+
+/**
+ * Typed placement of the selected element(s): either an absolute centre or an offset from where they are.
+ * Like the pending changes list, positions are Revit coordinates in the preferred length unit.
+ */
+export const TransformPanel = ({ selection, coordinateSystem, lengthUnit, onMoveTo, onMoveBy }: TransformPanelProps) => {
+  const revitCenter = toRevitPoint(selection.center, coordinateSystem);
+  const [mode, setMode] = useState<InputMode>("absolute");
+  const [fields, setFields] = useState(() => toFields(revitCenter, lengthUnit));
+
+  const { x, y, z } = revitCenter;
+
+  // Follow the selection (and gizmo drags) until the user types something new
+  useEffect(() => {
+    setFields(mode === "absolute" ? toFields({ x, y, z }, lengthUnit) : ZERO_FIELDS);
+  }, [mode, x, y, z, lengthUnit]);
+
+  const values = {
+    x: parseFloat(fields.x),
+    y: parseFloat(fields.y),
+    z: parseFloat(fields.z),
+  };
+  const isValid = AXES.every((axis) => Number.isFinite(values[axis]));
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!isValid) return;
+
+    const feet = {
+      x: inputValueToFeet(values.x, lengthUnit),
+      y: inputValueToFeet(values.y, lengthUnit),
+      z: inputValueToFeet(values.z, lengthUnit),
+    };
+    if (mode === "absolute") {
+      onMoveTo(fromRevitPoint(feet, coordinateSystem));
+    } else {
+      onMoveBy(fromRevitVector(feet, coordinateSystem));
+      setFields(ZERO_FIELDS);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="absolute top-16 right-4 w-64 space-y-3 bg-card border border-border rounded-lg p-4 shadow-lg"
+    >
+      <div className="flex items-center gap-2">
+        <Crosshair className="h-4 w-4 text-muted-foreground" />
+        <h3 className="font-semibold text-foreground truncate" title={selection.name}>{selection.name}</h3>
+      </div>
+
+      <ToggleGroup
+        type="single"
+        size="sm"
+        value={mode}
+        onValueChange={(value) => value && setMode(value as InputMode)}
+        className="grid grid-cols-2"
+      >
+        <ToggleGroupItem value="absolute">Position</ToggleGroupItem>
+        <ToggleGroupItem value="relative">Offset</ToggleGroupItem>
+      </ToggleGroup>
+
+      <div className="space-y-2">
+        {AXES.map((axis) => (
+          <div key={axis} className="flex items-center gap-2">
+            <Label htmlFor={`transform-${axis}`} className="w-4 uppercase">{axis}</Label>
+            <Input
+              id={`transform-${axis}`}
+              type="number"
+              step="any"
+              value={fields[axis]}
+              onChange={(event) => setFields((prev) => ({ ...prev, [axis]: event.target.value }))}
+              className="h-8"
+            />
+            <span className="w-6 text-xs text-muted-foreground">{INPUT_UNIT_LABELS[lengthUnit]}</span>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {mode === "absolute"
+          ? `Centre of the selection's bounding box, now at ${formatPoint(revitCenter, lengthUnit)}.`
+          : "Moves the selection by this much from where it is."}
+      </p>
+
+      <Button type="submit" size="sm" className="w-full" disabled={!isValid}>
+        {mode === "absolute" ? "Move to position" : "Move by offset"}
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,36 @@
+import { useCallback } from "react";
+import type { Tables } from "@/integrations/supabase/types";
+
+// Allowlist entries as returned by autodesk-projects (the table itself is not readable with the anon key)
+export type AllowedProject = Pick<Tables<"allowed_projects">, "project_id" | "hub_id" | "autodesk_user_id" | "name">;
+
+// ACC project IDs come with or without the BIM 360 "b." prefix; the allowlist stores them without
+export const normalizeProjectId = (projectId: string) => projectId.replace(/^b\./, "");
+
+// Hub-scoped entries only match that hub; the edge functions apply the same rule
+export const isProjectAllowed = (
+  allowedProjects: AllowedProject[] | null | undefined,
+  projectId: string,
+  hubId: string | null
+) => {
+  if (!allowedProjects) return false;
+  const cleanProjectId = normalizeProjectId(projectId);
+  return allowedProjects.some(
+    (entry) =>
+      entry.project_id === cleanProjectId &&
+      (!entry.hub_id || entry.hub_id === hubId)
+  );
+};
+
+/**
+ * Checks projects against the signed-in user's allowlist entries (global rows plus rows scoped to the user).
+ * The entries come with the project list; until then nothing is allowed.
+ */
+export function useAllowedProjects(allowedProjects: AllowedProject[] | null) {
+  const isAllowed = useCallback(
+    (projectId: string, hubId: string | null) => isProjectAllowed(allowedProjects, projectId, hubId),
+    [allowedProjects]
+  );
+
+  return { allowedProjects, isAllowed };
+}
@@ -0,0 +1,60 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+export type Draft = Tables<"drafts">;
+
+// A draft belongs to one version of one ACC item (and to the signed-in Autodesk user, server-side)
+export interface DraftKey {
+  projectId: string;
+  // Not part of the key; lets the server check hub-scoped allowlist entries without looking the hub up
+  hubId: string | null;
+  itemId: string;
+  versionUrn: string;
+}
+
+// Edits are autosaved once they have settled for this long
+export const DRAFT_AUTOSAVE_DELAY_MS = 1500;
+
+const draftQueryKey = (key: DraftKey | null) =>
+  ["draft", key?.projectId ?? null, key?.itemId ?? null, key?.versionUrn ?? null];
+
+const invokeDrafts = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke("viewer-drafts", { body });
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Reads the signed-in user's draft of unsaved edits for a model version, and saves or deletes drafts.
+ * Pass a null key while no model is loaded to hold the query back.
+ */
+export function useDraft(key: DraftKey | null, getToken: () => Promise<string>) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: draftQueryKey(key),
+    enabled: !!key,
+    refetchOnWindowFocus: false,
+    queryFn: async (): Promise<Draft | null> => {
+      const token = await getToken();
+      const data = await invokeDrafts({ token, action: "get", ...key });
+      return data.draft;
+    },
+  });
+
+  // Saves take the key explicitly: a debounced save may land after another version was opened
+  const saveDraft = async (draftKey: DraftKey, changes: Json) => {
+    const token = await getToken();
+    const data = await invokeDrafts({ token, action: "save", ...draftKey, changes });
+    queryClient.setQueryData(draftQueryKey(draftKey), data.draft);
+  };
+
+  const deleteDraft = async (draftKey: DraftKey) => {
+    const token = await getToken();
+    await invokeDrafts({ token, action: "delete", ...draftKey });
+    queryClient.setQueryData(draftQueryKey(draftKey), null);
+  };
+
+  return { ...query, draft: query.data ?? null, saveDraft, deleteDraft };
+}
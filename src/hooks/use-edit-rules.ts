@@ -0,0 +1,27 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { normalizeProjectId } from "@/hooks/use-allowed-projects";
+import type { EditRule } from "@/lib/edit-permissions";
+
+/**
+ * Reads the rules deciding which elements can be moved in a project (global rows plus the project's own).
+ * Pass null while no project is open to hold the query back.
+ */
+export function useEditRules(projectId: string | null) {
+  const cleanProjectId = projectId ? normalizeProjectId(projectId) : null;
+
+  const query = useQuery({
+    queryKey: ["edit-rules", cleanProjectId],
+    enabled: !!cleanProjectId,
+    queryFn: async (): Promise<EditRule[]> => {
+      const { data, error } = await supabase
+        .from("edit_rules")
+        .select("*")
+        .or(`project_id.is.null,project_id.eq.${cleanProjectId}`);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  return { ...query, editRules: query.data ?? [] };
+}
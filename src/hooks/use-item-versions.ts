@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toItemVersion, type ItemVersion } from "@/lib/acc-files";
+
+/**
+ * Lists every version of an ACC item, newest first (the first entry is the tip).
+ * Pass null IDs while no model is loaded to hold the query back.
+ */
+export function useItemVersions(
+  projectId: string | null,
+  hubId: string | null,
+  itemId: string | null,
+  getToken: () => Promise<string>
+) {
+  const query = useQuery({
+    queryKey: ["item-versions", projectId, itemId],
+    enabled: !!projectId && !!itemId,
+    queryFn: async (): Promise<ItemVersion[]> => {
+      const token = await getToken();
+      const { data, error } = await supabase.functions.invoke("autodesk-item-versions", {
+        body: { token, projectId, hubId, itemId },
+      });
+      if (error) throw error;
+      return (data.data || [])
+        .map(toItemVersion)
+        .sort((a: ItemVersion, b: ItemVersion) => b.versionNumber - a.versionNumber);
+    },
+  });
+
+  return { ...query, versions: query.data, tipVersion: query.data?.[0] ?? null };
+}
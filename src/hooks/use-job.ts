@@ -0,0 +1,116 @@
+import { useEffect, useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Job = Tables<"jobs">;
+
+export type JobStatus = "processing" | "uploading" | "completed" | "failed" | "cancelled";
+
+// Copying the model to OSS, the WorkItem's own steps, then publishing to ACC
+export type JobStage = "staging" | "queued" | "downloading" | "processing" | "uploading" | "versioning";
+
+export const JOB_STAGES: JobStage[] = ["staging", "queued", "downloading", "processing", "uploading", "versioning"];
+
+// Design Automation's WorkItem stats, recorded on the job as it runs
+export interface WorkItemStats {
+  timeQueued?: string;
+  timeDownloadStarted?: string;
+  timeInstructionsStarted?: string;
+  timeInstructionsEnded?: string;
+  timeUploadEnded?: string;
+  bytesDownloaded?: number;
+  bytesUploaded?: number;
+}
+
+// Result of a completed job, as published to ACC by revit-complete
+export interface JobResult {
+  createdNewVersion: boolean;
+  itemId: string;
+  versionId: string | null;
+  versionNumber: number | null;
+  fileName: string;
+  uploadedSize: number;
+}
+
+export const isJobFinished = (job: Job | null) =>
+  job?.status === "completed" || job?.status === "failed" || job?.status === "cancelled";
+
+// The WorkItem's output stays in the transient temp bucket for 24 hours
+const TEMP_OBJECT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Design Automation succeeded but publishing to ACC failed: revit-complete can try again, resuming from
+// the job's checkpoint or, while it's still there, the output in the temp bucket
+export const canRetryPublish = (job: Job) =>
+  job.status === "failed" &&
+  job.work_item_status === "success" &&
+  (!!job.publish_checkpoint || Date.now() - new Date(job.created_at).getTime() < TEMP_OBJECT_RETENTION_MS);
+
+const jobQueryKey = (jobId: string | null) => ["job", jobId];
+
+// How often a running WorkItem is asked for progress; the answer arrives over Realtime
+const PROGRESS_CHECK_INTERVAL_MS = 15000;
+
+/**
+ * Follows a Design Automation save job: reads the row once (through get_job; the table itself isn't
+ * readable), then keeps it current from the broadcasts sent on the job's own Realtime topic.
+ * The job runs server-side; while its WorkItem runs, revit-status is asked every so often to move the
+ * row on from the WorkItem's status, with the user's token (only the job's owner may ask). Pass null
+ * when no save is running.
+ */
+export function useJob(jobId: string | null, getToken: () => Promise<string>) {
+  const queryClient = useQueryClient();
+  // Read through a ref so a new getToken each render doesn't restart the progress interval
+  const getTokenRef = useRef(getToken);
+  getTokenRef.current = getToken;
+
+  const query = useQuery({
+    queryKey: jobQueryKey(jobId),
+    enabled: !!jobId,
+    refetchOnWindowFocus: false,
+    queryFn: async (): Promise<Job | null> => {
+      const { data, error } = await supabase.rpc("get_job", { p_job_id: jobId! });
+      if (error) throw error;
+      return data?.[0] ?? null;
+    },
+  });
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    const channel = supabase
+      .channel(`job:${jobId}`)
+      .on("broadcast", { event: "job_updated" }, ({ payload }) =>
+        queryClient.setQueryData(jobQueryKey(jobId), payload as Job)
+      )
+      // Catch up on anything that changed before the subscription was in place
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") queryClient.invalidateQueries({ queryKey: jobQueryKey(jobId) });
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [jobId, queryClient]);
+
+  const isProcessing = query.data?.status === "processing";
+
+  useEffect(() => {
+    if (!jobId || !isProcessing) return;
+
+    const checkProgress = async () => {
+      try {
+        const token = await getTokenRef.current();
+        const { error } = await supabase.functions.invoke("revit-status", { body: { token, jobId } });
+        if (error) throw error;
+      } catch (error) {
+        console.warn("Job progress check failed:", error instanceof Error ? error.message : error);
+      }
+    };
+
+    const interval = setInterval(checkProgress, PROGRESS_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [jobId, isProcessing]);
+
+  return { ...query, job: query.data ?? null };
+}
@@ -14,13 +14,219 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      allowed_projects: {
+        Row: {
+          autodesk_user_id: string | null
+          created_at: string
+          hub_id: string | null
+          id: string
+          name: string | null
+          project_id: string
+        }
+        Insert: {
+          autodesk_user_id?: string | null
+          created_at?: string
+          hub_id?: string | null
+          id?: string
+          name?: string | null
+          project_id: string
+        }
+        Update: {
+          autodesk_user_id?: string | null
+          created_at?: string
+          hub_id?: string | null
+          id?: string
+          name?: string | null
+          project_id?: string
+        }
+        Relationships: []
+      }
+      drafts: {
+        Row: {
+          autodesk_user_id: string
+          changes: Json
+          created_at: string
+          id: string
+          item_id: string
+          project_id: string
+          updated_at: string
+          version_urn: string
+        }
+        Insert: {
+          autodesk_user_id: string
+          changes?: Json
+          created_at?: string
+          id?: string
+          item_id: string
+          project_id: string
+          updated_at?: string
+          version_urn: string
+        }
+        Update: {
+          autodesk_user_id?: string
+          changes?: Json
+          created_at?: string
+          id?: string
+          item_id?: string
+          project_id?: string
+          updated_at?: string
+          version_urn?: string
+        }
+        Relationships: []
+      }
+      edit_rules: {
+        Row: {
+          created_at: string
+          effect: string
+          id: string
+          operator: string
+          priority: number
+          project_id: string | null
+          property_name: string
+          reason: string | null
+          value: string | null
+        }
+        Insert: {
+          created_at?: string
+          effect?: string
+          id?: string
+          operator?: string
+          priority?: number
+          project_id?: string | null
+          property_name: string
+          reason?: string | null
+          value?: string | null
+        }
+        Update: {
+          created_at?: string
+          effect?: string
+          id?: string
+          operator?: string
+          priority?: number
+          project_id?: string | null
+          property_name?: string
+          reason?: string | null
+          value?: string | null
+        }
+        Relationships: []
+      }
+      jobs: {
+        Row: {
+          autodesk_user_id: string | null
+          bucket_key: string
+          completed_at: string | null
+          create_new_version: boolean
+          created_at: string
+          error: string | null
+          folder_urn: string | null
+          id: string
+          item_id: string
+          output_object_key: string
+          project_id: string
+          publish_attempts: number
+          publish_checkpoint: Json | null
+          report_url: string | null
+          result: Json | null
+          stage: string
+          status: string
+          transform_count: number
+          updated_at: string
+          version_urn: string | null
+          work_item_id: string | null
+          work_item_stats: Json | null
+          work_item_status: string | null
+        }
+        Insert: {
+          autodesk_user_id?: string | null
+          bucket_key: string
+          completed_at?: string | null
+          create_new_version?: boolean
+          created_at?: string
+          error?: string | null
+          folder_urn?: string | null
+          id?: string
+          item_id: string
+          output_object_key: string
+          project_id: string
+          publish_attempts?: number
+          publish_checkpoint?: Json | null
+          report_url?: string | null
+          result?: Json | null
+          stage?: string
+          status?: string
+          transform_count?: number
+          updated_at?: string
+          version_urn?: string | null
+          work_item_id?: string | null
+          work_item_stats?: Json | null
+          work_item_status?: string | null
+        }
+        Update: {
+          autodesk_user_id?: string | null
+          bucket_key?: string
+          completed_at?: string | null
+          create_new_version?: boolean
+          created_at?: string
+          error?: string | null
+          folder_urn?: string | null
+          id?: string
+          item_id?: string
+          output_object_key?: string
+          project_id?: string
+          publish_attempts?: number
+          publish_checkpoint?: Json | null
+          report_url?: string | null
+          result?: Json | null
+          stage?: string
+          status?: string
+          transform_count?: number
+          updated_at?: string
+          version_urn?: string | null
+          work_item_id?: string | null
+          work_item_stats?: Json | null
+          work_item_status?: string | null
+        }
+        Relationships: []
+      }
+      staged_copies: {
+        Row: {
+          bucket_key: string
+          created_at: string
+          last_used_at: string
+          object_key: string
+          project_id: string
+          size: number
+          version_urn: string
+        }
+        Insert: {
+          bucket_key: string
+          created_at?: string
+          last_used_at?: string
+          object_key: string
+          project_id: string
+          size: number
+          version_urn: string
+        }
+        Update: {
+          bucket_key?: string
+          created_at?: string
+          last_used_at?: string
+          object_key?: string
+          project_id?: string
+          size?: number
+          version_urn?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      get_job: {
+        Args: { p_job_id: string }
+        Returns: Database["public"]["Tables"]["jobs"]["Row"][]
+      }
     }
     Enums: {
       [_ in never]: never
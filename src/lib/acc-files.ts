@@ -0,0 +1,95 @@
+// Model formats the viewer can open from ACC
+export const VIEWABLE_EXTENSIONS = ['.rvt', '.ifc', '.nwd', '.nwc', '.dwg', '.dwf'];
+
+export const isViewableFileName = (fileName: string | undefined | null): boolean => {
+  const name = fileName?.toLowerCase() || '';
+  return VIEWABLE_EXTENSIONS.some((ext) => name.endsWith(ext));
+};
+
+// The viewer expects "urn:" + URL-safe base64 of the version URN
+export const toViewerDocumentId = (versionUrn: string): string => {
+  const base64Urn = btoa(versionUrn)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  return `urn:${base64Urn}`;
+};
+
+export interface AccHub {
+  id: string;
+  name: string;
+  region: string | null;
+}
+
+export interface AccProject {
+  id: string;
+  attributes: {
+    name: string;
+  };
+}
+
+export interface ItemVersion {
+  id: string;
+  versionNumber: number;
+  lastModifiedTime: string | null;
+  lastModifiedUserName: string | null;
+}
+
+// A Data Management (JSON:API) resource, reduced to the fields the viewer reads
+export interface DmResource {
+  type: string;
+  id: string;
+  attributes?: {
+    name?: string;
+    displayName?: string;
+    versionNumber?: number;
+    lastModifiedTime?: string;
+    lastModifiedUserName?: string;
+  };
+  relationships?: {
+    tip?: { data?: { id: string } };
+    parent?: { data?: { id: string } };
+  };
+}
+
+// Folder contents: folders and items, with the items' tip versions included
+export interface DmContents {
+  data?: DmResource[];
+  included?: DmResource[];
+}
+
+// Maps a Data Management version resource to what the version pickers show
+export const toItemVersion = (version: DmResource): ItemVersion => ({
+  id: version.id,
+  versionNumber: version.attributes?.versionNumber ?? 0,
+  lastModifiedTime: version.attributes?.lastModifiedTime || null,
+  lastModifiedUserName: version.attributes?.lastModifiedUserName || null,
+});
+
+// A specific file version picked in the browser, ready to be loaded in the viewer
+export interface ModelSelection {
+  hubId: string | null;
+  projectId: string;
+  folderUrn: string | null;
+  itemId: string;
+  versionUrn: string;
+  fileName: string;
+}
+
+const SELECTED_HUB_STORAGE_KEY = 'acc_selected_hub';
+
+export const getStoredHubId = (): string | null => localStorage.getItem(SELECTED_HUB_STORAGE_KEY);
+
+export const storeHubId = (hubId: string) => {
+  localStorage.setItem(SELECTED_HUB_STORAGE_KEY, hubId);
+};
+
+// Keeps the user's last hub when it is still available, otherwise falls back to the first one
+export const pickHub = (hubs: AccHub[], preferredHubId: string | null): AccHub | null =>
+  hubs.find((hub) => hub.id === preferredHubId) || hubs[0] || null;
+
+// Opens a file's details in ACC Docs (the same URL form the project field accepts)
+export const accFileUrl = (projectId: string, folderUrn: string, itemId: string): string =>
+  `https://acc.autodesk.com/docs/files/projects/${projectId}` +
+  `?folderUrn=${encodeURIComponent(folderUrn)}&entityId=${encodeURIComponent(itemId)}` +
+  '&viewModel=detail&moduleId=folders';
@@ -0,0 +1,177 @@
+import { MM_PER_FOOT, feetToViewerUnits, type CoordinateSystem } from "@/lib/coordinates";
+import { unionBoxes, type Axis, type Box } from "@/lib/geometry-snap";
+import type { PropertyResult, ViewerModel } from "@/lib/viewer-model";
+
+// Free space a Revit category (shelving, counters, display units...) needs next to other ruled categories
+export interface ClearanceRule {
+  category: string;
+  minGapMm: number;
+}
+
+export interface ClearanceSettings {
+  rules: ClearanceRule[];
+}
+
+export const DEFAULT_CLEARANCE_SETTINGS: ClearanceSettings = {
+  rules: [
+    { category: 'Furniture', minGapMm: 900 },
+    { category: 'Furniture Systems', minGapMm: 900 },
+    { category: 'Casework', minGapMm: 900 },
+    { category: 'Specialty Equipment', minGapMm: 900 },
+  ],
+};
+
+export interface Violation {
+  kind: 'clash' | 'clearance';
+  dbId: number;        // the moved element
+  elementName: string;
+  otherDbId: number;
+  otherName: string;
+  gapFeet?: number;    // clearance violations: the free distance that is left
+}
+
+// Boxes must overlap by more than this (feet), so a fixture standing on a floor or against a wall isn't a clash
+const CLASH_TOLERANCE_FEET = 0.01;
+
+// Bounding boxes of these routinely enclose or touch fixtures without there being a real clash
+const IGNORED_CLASH_CATEGORIES = ['Floors', 'Ceilings', 'Roofs', 'Topography', 'Site', 'Rooms', 'Levels', 'Grids'];
+
+const CLEARANCE_SETTINGS_STORAGE_KEY = 'clearance_settings';
+
+export const loadClearanceSettings = (): ClearanceSettings => {
+  const stored = localStorage.getItem(CLEARANCE_SETTINGS_STORAGE_KEY);
+  if (!stored) return DEFAULT_CLEARANCE_SETTINGS;
+
+  try {
+    const parsed = JSON.parse(stored);
+    if (Array.isArray(parsed.rules)) return { rules: parsed.rules };
+    // Settings saved before rules were per category: one aisle width shared by a list of categories
+    if (Array.isArray(parsed.aisleCategories) && typeof parsed.aisleWidthMm === 'number') {
+      return {
+        rules: parsed.aisleCategories.map((category: string) => ({ category, minGapMm: parsed.aisleWidthMm })),
+      };
+    }
+    return DEFAULT_CLEARANCE_SETTINGS;
+  } catch {
+    return DEFAULT_CLEARANCE_SETTINGS;
+  }
+};
+
+export const saveClearanceSettings = (settings: ClearanceSettings) => {
+  localStorage.setItem(CLEARANCE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+const AXES: Axis[] = ['x', 'y', 'z'];
+
+export const boxesOverlap = (a: Box, b: Box, tolerance = 0) =>
+  AXES.every((axis) => Math.min(a.max[axis], b.max[axis]) - Math.max(a.min[axis], b.min[axis]) > tolerance);
+
+// Horizontal distance between two boxes that share some height (Infinity when one is above the other)
+export const planGap = (a: Box, b: Box) => {
+  if (a.max.z <= b.min.z || b.max.z <= a.min.z) return Infinity;
+  const gap = (axis: Axis) => Math.max(0, a.min[axis] - b.max[axis], b.min[axis] - a.max[axis]);
+  return Math.hypot(gap('x'), gap('y'));
+};
+
+// Revit categories come through the viewer as "Revit Walls", "Revit Furniture", ...
+const getElementCategories = (model: ViewerModel, dbIds: number[]) =>
+  new Promise<Map<number, string>>((resolve) => {
+    model.getBulkProperties(
+      dbIds,
+      { propFilter: ['Category'] },
+      (results: PropertyResult[]) => {
+        const categories = new Map<number, string>();
+        results.forEach((result) => {
+          const category = result.properties?.find((p) => p.displayName === 'Category')?.displayValue;
+          if (category) categories.set(result.dbId, String(category).replace(/^Revit /, ''));
+        });
+        resolve(categories);
+      },
+      () => resolve(new Map())
+    );
+  });
+
+/**
+ * Checks the moved elements, where they are now, against the rest of the model using bounding boxes:
+ * overlaps are clashes, and two elements of ruled categories closer than the larger of their
+ * clearances are clearance violations. Boxes are axis-aligned, so rotated or L-shaped elements are approximate.
+ */
+export async function findViolations(
+  model: ViewerModel,
+  movedDbIds: number[],
+  elementBounds: Map<number, Box>,
+  system: CoordinateSystem,
+  settings: ClearanceSettings
+): Promise<Violation[]> {
+  const tolerance = feetToViewerUnits(CLASH_TOLERANCE_FEET, system);
+  const toViewerUnits = (mm: number) => feetToViewerUnits(mm / MM_PER_FOOT, system);
+  // Gaps are collected up to the widest rule; categories are only known once the candidates are in
+  const maxClearance = toViewerUnits(Math.max(0, ...settings.rules.map((rule) => rule.minGapMm)));
+  const feetPerViewerUnit = 1 / feetToViewerUnits(1, system);
+  const tree = model.getInstanceTree();
+
+  // A moved element may be a parent node whose geometry sits on child nodes; those move with it
+  const movedOwner = new Map<number, number>();
+  movedDbIds.forEach((dbId) => {
+    tree.enumNodeChildren(dbId, (childId: number) => {
+      if (elementBounds.has(childId)) movedOwner.set(childId, dbId);
+    }, true);
+  });
+
+  const candidates: Array<Omit<Violation, 'elementName' | 'otherName'>> = [];
+  const checkedDbIds = new Set<number>();
+  const reported = new Set<string>();
+  const report = (candidate: Omit<Violation, 'elementName' | 'otherName'>, otherKey: number) => {
+    // One entry per pair, even when the other element's geometry is split over several nodes
+    const key = `${candidate.kind}:${candidate.dbId}:${otherKey}`;
+    if (reported.has(key)) return;
+    reported.add(key);
+    candidates.push(candidate);
+  };
+
+  movedDbIds.forEach((dbId) => {
+    const parts = [...movedOwner].filter(([, owner]) => owner === dbId).map(([childId]) => elementBounds.get(childId)!);
+    if (parts.length === 0) return;
+    const bounds = unionBoxes(parts);
+
+    elementBounds.forEach((otherBounds, otherDbId) => {
+      const otherOwner = movedOwner.get(otherDbId);
+      // Skip the element's own parts, and pairs of moved elements already checked the other way round
+      if (otherOwner === dbId || (otherOwner !== undefined && checkedDbIds.has(otherOwner))) return;
+
+      if (boxesOverlap(bounds, otherBounds, tolerance)) {
+        report({ kind: 'clash', dbId, otherDbId }, otherOwner ?? otherDbId);
+        return;
+      }
+
+      // Back-to-back units (no gap at all) are fine; a gap narrower than an aisle is not
+      const gap = planGap(bounds, otherBounds);
+      if (gap > 0 && gap < maxClearance) {
+        report({ kind: 'clearance', dbId, otherDbId, gapFeet: gap * feetPerViewerUnit }, otherOwner ?? otherDbId);
+      }
+    });
+
+    checkedDbIds.add(dbId);
+  });
+
+  if (candidates.length === 0) return [];
+
+  const involved = [...new Set(candidates.flatMap((c) => [c.dbId, c.otherDbId]))];
+  const categories = await getElementCategories(model, involved);
+  const clearanceOf = (dbId: number) =>
+    settings.rules.find((rule) => rule.category === categories.get(dbId))?.minGapMm;
+  const isTooClose = (c: Omit<Violation, 'elementName' | 'otherName'>) => {
+    const own = clearanceOf(c.dbId);
+    const other = clearanceOf(c.otherDbId);
+    if (own === undefined || other === undefined) return false;
+    return (c.gapFeet ?? 0) < Math.max(own, other) / MM_PER_FOOT;
+  };
+
+  const nameOf = (dbId: number) => tree.getNodeName(dbId) || `Element ${dbId}`;
+
+  return candidates
+    .filter((c) => c.kind === 'clash'
+      ? !IGNORED_CLASH_CATEGORIES.includes(categories.get(c.otherDbId) || '')
+      : isTooClose(c))
+    .map((c) => ({ ...c, elementName: nameOf(c.dbId), otherName: nameOf(c.otherDbId) }));
+}
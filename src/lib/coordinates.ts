@@ -0,0 +1,116 @@
+import type { Vec3 } from "@/lib/transform-math";
+import type { ViewerModel } from "@/lib/viewer-model";
+
+// Revit stores every length internally in decimal feet
+export const METRES_PER_FOOT = 0.3048;
+export const MM_PER_FOOT = 304.8;
+
+/**
+ * How viewer coordinates relate to the source model: the viewer works in the model's own units
+ * (metres per unit = unitScale), shifted by -globalOffset to keep large coordinates precise.
+ */
+export interface CoordinateSystem {
+  unitScale: number;
+  globalOffset: Vec3;
+}
+
+// Marker sent with each transform so revit-modify and the plugin know positions are already converted
+export const REVIT_UNITS = 'revit-internal-feet';
+
+export type LengthUnit = 'mm' | 'm' | 'ft-in';
+
+export const LENGTH_UNITS: Array<{ id: LengthUnit; label: string }> = [
+  { id: 'mm', label: 'Millimetres' },
+  { id: 'm', label: 'Metres' },
+  { id: 'ft-in', label: 'Feet and inches' },
+];
+
+const LENGTH_UNIT_STORAGE_KEY = 'display_length_unit';
+
+export const getCoordinateSystem = (model: ViewerModel): CoordinateSystem => {
+  const globalOffset = model.getData?.()?.globalOffset;
+  return {
+    // Revit models come through in feet; fall back to that if the model doesn't say
+    unitScale: model.getUnitScale?.() || METRES_PER_FOOT,
+    globalOffset: {
+      x: globalOffset?.x || 0,
+      y: globalOffset?.y || 0,
+      z: globalOffset?.z || 0,
+    },
+  };
+};
+
+const toFeetFactor = (system: CoordinateSystem) => system.unitScale / METRES_PER_FOOT;
+
+// A direction or offset (no global offset applied) in Revit internal feet
+export const toRevitVector = (vector: Vec3, system: CoordinateSystem): Vec3 => {
+  const factor = toFeetFactor(system);
+  return { x: vector.x * factor, y: vector.y * factor, z: vector.z * factor };
+};
+
+// A position in the viewer's world space, in Revit internal feet
+export const toRevitPoint = (point: Vec3, system: CoordinateSystem): Vec3 =>
+  toRevitVector(
+    {
+      x: point.x + system.globalOffset.x,
+      y: point.y + system.globalOffset.y,
+      z: point.z + system.globalOffset.z,
+    },
+    system
+  );
+
+// Converts a length in feet (e.g. a grid step) to viewer units
+export const feetToViewerUnits = (feet: number, system: CoordinateSystem) => feet / toFeetFactor(system);
+
+// A direction or offset in Revit internal feet, back in viewer units
+export const fromRevitVector = (vector: Vec3, system: CoordinateSystem): Vec3 => {
+  const factor = toFeetFactor(system);
+  return { x: vector.x / factor, y: vector.y / factor, z: vector.z / factor };
+};
+
+// A position in Revit internal feet, back in the viewer's world space
+export const fromRevitPoint = (point: Vec3, system: CoordinateSystem): Vec3 => {
+  const vector = fromRevitVector(point, system);
+  return {
+    x: vector.x - system.globalOffset.x,
+    y: vector.y - system.globalOffset.y,
+    z: vector.z - system.globalOffset.z,
+  };
+};
+
+// Typed lengths are plain numbers in the preferred unit; feet and inches are typed as decimal feet
+export const INPUT_UNIT_LABELS: Record<LengthUnit, string> = { mm: 'mm', m: 'm', 'ft-in': 'ft' };
+
+export const feetToInputValue = (feet: number, unit: LengthUnit) =>
+  unit === 'mm' ? feet * MM_PER_FOOT : unit === 'm' ? feet * METRES_PER_FOOT : feet;
+
+export const inputValueToFeet = (value: number, unit: LengthUnit) =>
+  unit === 'mm' ? value / MM_PER_FOOT : unit === 'm' ? value / METRES_PER_FOOT : value;
+
+export const formatLength = (feet: number, unit: LengthUnit) => {
+  switch (unit) {
+    case 'mm':
+      return `${Math.round(feet * MM_PER_FOOT)} mm`;
+    case 'm':
+      return `${(feet * METRES_PER_FOOT).toFixed(3)} m`;
+    case 'ft-in': {
+      const sign = feet < 0 ? '-' : '';
+      const totalInches = Math.round(Math.abs(feet) * 12 * 16) / 16; // nearest 1/16"
+      const wholeFeet = Math.floor(totalInches / 12);
+      const inches = totalInches - wholeFeet * 12;
+      return `${sign}${wholeFeet}' ${parseFloat(inches.toFixed(4))}"`;
+    }
+  }
+};
+
+export const formatPoint = (point: Vec3, unit: LengthUnit) =>
+  `(${formatLength(point.x, unit)}, ${formatLength(point.y, unit)}, ${formatLength(point.z, unit)})`;
+
+export const loadLengthUnit = (): LengthUnit => {
+  const stored = localStorage.getItem(LENGTH_UNIT_STORAGE_KEY);
+  return LENGTH_UNITS.some((unit) => unit.id === stored) ? (stored as LengthUnit) : 'mm';
+};
+
+export const saveLengthUnit = (unit: LengthUnit) => {
+  localStorage.setItem(LENGTH_UNIT_STORAGE_KEY, unit);
+};
@@ -0,0 +1,107 @@
+import type { Tables } from "@/integrations/supabase/types";
+import type { InstanceTree, PropertyResult, ViewerModel } from "@/lib/viewer-model";
+
+export type EditRule = Tables<"edit_rules">;
+
+// A selected element that no rule lets the user move
+export interface ElementLock {
+  dbId: number;
+  name: string;
+  reason: string;
+}
+
+// Property display name -> value, as listed in the viewer's properties panel
+export type ElementProperties = Map<string, string>;
+
+const getBulkProperties = (model: ViewerModel, dbIds: number[]) =>
+  new Promise<PropertyResult[]>((resolve, reject) => {
+    model.getBulkProperties(dbIds, {}, resolve, () => reject(new Error('Failed to read element properties')));
+  });
+
+// The node and its ancestors below the root, nearest first
+const ancestry = (tree: InstanceTree, dbId: number) => {
+  const chain: number[] = [];
+  for (let nodeId = dbId; nodeId && nodeId !== tree.getRootId(); nodeId = tree.getNodeParentId(nodeId)) {
+    chain.push(nodeId);
+  }
+  return chain;
+};
+
+/**
+ * Reads the properties of several elements in one lookup. Values missing on a node itself are taken
+ * from its nearest ancestor that has them, since selections can land on a geometry sub-node.
+ */
+export async function getElementProperties(model: ViewerModel, dbIds: number[]): Promise<Map<number, ElementProperties>> {
+  const tree = model.getInstanceTree();
+  const chains = new Map(dbIds.map((dbId) => [dbId, ancestry(tree, dbId)]));
+  const results = await getBulkProperties(model, [...new Set([...chains.values()].flat())]);
+  const resultsById = new Map(results.map((result) => [result.dbId, result]));
+
+  const propertiesById = new Map<number, ElementProperties>();
+  chains.forEach((chain, dbId) => {
+    const properties: ElementProperties = new Map();
+    for (const nodeId of chain) {
+      resultsById.get(nodeId)?.properties?.forEach((property) => {
+        if (property.displayValue === '' || property.displayValue == null || properties.has(property.displayName)) return;
+        // Revit categories come through the viewer as "Revit Walls", "Revit Furniture", ...
+        const value = property.displayName === 'Category'
+          ? String(property.displayValue).replace(/^Revit /, '')
+          : String(property.displayValue);
+        properties.set(property.displayName, value);
+      });
+      if (properties.has('Category')) break;
+    }
+    propertiesById.set(dbId, properties);
+  });
+
+  return propertiesById;
+}
+
+const ruleMatches = (rule: EditRule, properties: ElementProperties) => {
+  const actual = properties.get(rule.property_name);
+  if (actual === undefined) return false;
+
+  switch (rule.operator) {
+    case 'exists':
+      return true;
+    case 'contains':
+      return actual.toLowerCase().includes((rule.value ?? '').toLowerCase());
+    default:
+      return actual.toLowerCase() === (rule.value ?? '').toLowerCase();
+  }
+};
+
+// Highest priority first; project rules win over global ones of the same priority
+const sortRules = (rules: EditRule[]) =>
+  [...rules].sort((a, b) => b.priority - a.priority || Number(!!b.project_id) - Number(!!a.project_id));
+
+/**
+ * The rule that decides whether an element may be moved, or null when none matches (movable).
+ */
+export const findDecidingRule = (rules: EditRule[], properties: ElementProperties) =>
+  sortRules(rules).find((rule) => ruleMatches(rule, properties)) ?? null;
+
+const describeRule = (rule: EditRule) =>
+  rule.reason || (rule.operator === 'exists'
+    ? `Elements with "${rule.property_name}" are locked`
+    : `${rule.property_name} "${rule.value}" is locked`);
+
+/**
+ * Checks each element against the rules and returns the ones that are locked, with the reason.
+ */
+export async function findLockedElements(model: ViewerModel, dbIds: number[], rules: EditRule[]): Promise<ElementLock[]> {
+  if (rules.length === 0) return [];
+
+  const tree = model.getInstanceTree();
+  const propertiesById = await getElementProperties(model, dbIds);
+  const locks: ElementLock[] = [];
+
+  for (const dbId of dbIds) {
+    const rule = findDecidingRule(rules, propertiesById.get(dbId) ?? new Map());
+    if (rule?.effect === 'lock') {
+      locks.push({ dbId, name: tree.getNodeName(dbId) || `Element ${dbId}`, reason: describeRule(rule) });
+    }
+  }
+
+  return locks;
+}
@@ -0,0 +1,113 @@
+import type { Box } from "@/lib/geometry-snap";
+import { quaternionToAxisAngle, type Quat, type Vec3 } from "@/lib/transform-math";
+import type { ModelViewer, ViewerModel } from "@/lib/viewer-model";
+
+// Where an element sits relative to where it was loaded: rotated about `pivot`, then offset
+export interface ElementTransform {
+  pivot: Vec3;
+  offset: Vec3;
+  rotation: Quat;
+}
+
+// One element touched by an edit; null means "as loaded" (no pending change)
+export interface ElementEdit {
+  dbId: number;
+  before: ElementTransform | null;
+  after: ElementTransform | null;
+}
+
+// One undoable step (a drag, a nudge, a revert...)
+export interface EditCommand {
+  label: string;
+  edits: ElementEdit[];
+}
+
+export interface EditHistory {
+  undo: EditCommand[];
+  redo: EditCommand[];
+}
+
+// Oldest steps are dropped beyond this
+export const MAX_EDIT_HISTORY = 100;
+
+// Plain-object copy, so history entries don't alias the THREE vectors the gizmo keeps mutating
+export const cloneTransform = (transform: ElementTransform): ElementTransform => ({
+  pivot: { x: transform.pivot.x, y: transform.pivot.y, z: transform.pivot.z },
+  offset: { x: transform.offset.x, y: transform.offset.y, z: transform.offset.z },
+  rotation: { x: transform.rotation.x, y: transform.rotation.y, z: transform.rotation.z, w: transform.rotation.w },
+});
+
+export const isSameTransform = (a: ElementTransform | null, b: ElementTransform | null) => {
+  if (!a || !b) return a === b;
+  return (['x', 'y', 'z'] as const).every((c) => a.pivot[c] === b.pivot[c] && a.offset[c] === b.offset[c]) &&
+    (['x', 'y', 'z', 'w'] as const).every((c) => a.rotation[c] === b.rotation[c]);
+};
+
+// True when the transform leaves the element where it was loaded
+export const isUntransformed = (transform: ElementTransform) =>
+  transform.offset.x === 0 && transform.offset.y === 0 && transform.offset.z === 0 &&
+  !quaternionToAxisAngle(transform.rotation);
+
+/**
+ * Sets the anim transform of every fragment of an element. Passing null puts the element back
+ * where it was loaded.
+ */
+export const setFragmentTransform = (viewer: ModelViewer, dbId: number, transform: ElementTransform | null) => {
+  const model = viewer.model;
+  const THREE = window.THREE;
+
+  // Anim transforms map x -> q·x + position; rotating about the pivot p and then
+  // translating by t needs position = p - q·p + t
+  const rotation = transform
+    ? new THREE.Quaternion(transform.rotation.x, transform.rotation.y, transform.rotation.z, transform.rotation.w)
+    : new THREE.Quaternion();
+  const position = new THREE.Vector3();
+  if (transform) {
+    const pivot = new THREE.Vector3(transform.pivot.x, transform.pivot.y, transform.pivot.z);
+    position.copy(pivot)
+      .sub(pivot.clone().applyQuaternion(rotation))
+      .add(new THREE.Vector3(transform.offset.x, transform.offset.y, transform.offset.z));
+  }
+
+  model.getInstanceTree().enumNodeFragments(dbId, (fragId: number) => {
+    const fragProxy = viewer.impl.getFragmentProxy(model, fragId);
+    fragProxy.getAnimTransform();
+
+    fragProxy.position.copy(position);
+    fragProxy.quaternion.copy(rotation);
+    fragProxy.updateAnimTransform();
+  }, true);
+
+  viewer.impl.invalidate(true, true, true);
+};
+
+/**
+ * World bounds of every element in the model as currently displayed (moved elements included),
+ * the union of each element's fragments.
+ */
+export const collectElementBounds = (model: ViewerModel): Map<number, Box> => {
+  const fragList = model.getFragmentList();
+  const fragId2dbId = fragList.fragments.fragId2dbId;
+  const boxesByDbId = new Map<number, Box>();
+  const fragBounds = new window.THREE.Box3();
+
+  for (let fragId = 0; fragId < fragList.getCount(); fragId++) {
+    const dbId = fragId2dbId[fragId];
+    fragList.getWorldBounds(fragId, fragBounds);
+    const existing = boxesByDbId.get(dbId);
+    boxesByDbId.set(dbId, {
+      min: {
+        x: Math.min(existing?.min.x ?? Infinity, fragBounds.min.x),
+        y: Math.min(existing?.min.y ?? Infinity, fragBounds.min.y),
+        z: Math.min(existing?.min.z ?? Infinity, fragBounds.min.z),
+      },
+      max: {
+        x: Math.max(existing?.max.x ?? -Infinity, fragBounds.max.x),
+        y: Math.max(existing?.max.y ?? -Infinity, fragBounds.max.y),
+        z: Math.max(existing?.max.z ?? -Infinity, fragBounds.max.z),
+      },
+    });
+  }
+
+  return boxesByDbId;
+};
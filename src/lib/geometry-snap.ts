@@ -0,0 +1,143 @@
+import type { Vec3 } from "@/lib/transform-math";
+
+export type Axis = 'x' | 'y' | 'z';
+
+export interface Box {
+  min: Vec3;
+  max: Vec3;
+}
+
+// A plane the moving box can snap to: `value` along `axis`, e.g. a wall face at x = 12.5
+export interface SnapPlane {
+  axis: Axis;
+  value: number;
+  kind: 'face' | 'centre';
+  source: Box | null; // null for planes found by raycasting (no box to draw the guide to)
+}
+
+export interface SnapGuide {
+  axis: Axis;
+  kind: 'face' | 'edge' | 'centre';
+  from: Vec3;
+  to: Vec3;
+}
+
+export interface GeometrySnapResult {
+  correction: Vec3;  // add to the offset to land on the snapped planes
+  snappedAxes: Axis[];
+  guides: SnapGuide[];
+}
+
+// Distance (model units, feet for Revit) within which bounds snap to a plane
+export const GEOMETRY_SNAP_TOLERANCE = 0.25;
+// Only elements within this distance of the dragged element are considered
+export const GEOMETRY_SNAP_SEARCH_RADIUS = 30;
+export const MAX_SNAP_CANDIDATES = 300;
+
+const AXES: Axis[] = ['x', 'y', 'z'];
+
+export const boxCenter = (box: Box): Vec3 => ({
+  x: (box.min.x + box.max.x) / 2,
+  y: (box.min.y + box.max.y) / 2,
+  z: (box.min.z + box.max.z) / 2,
+});
+
+export const unionBoxes = (boxes: Box[]): Box => ({
+  min: {
+    x: Math.min(...boxes.map((box) => box.min.x)),
+    y: Math.min(...boxes.map((box) => box.min.y)),
+    z: Math.min(...boxes.map((box) => box.min.z)),
+  },
+  max: {
+    x: Math.max(...boxes.map((box) => box.max.x)),
+    y: Math.max(...boxes.map((box) => box.max.y)),
+    z: Math.max(...boxes.map((box) => box.max.z)),
+  },
+});
+
+export const translateBox = (box: Box, offset: Vec3): Box => ({
+  min: { x: box.min.x + offset.x, y: box.min.y + offset.y, z: box.min.z + offset.z },
+  max: { x: box.max.x + offset.x, y: box.max.y + offset.y, z: box.max.z + offset.z },
+});
+
+export const boxDistance = (a: Box, b: Box) => {
+  const gap = (axis: Axis) => Math.max(0, a.min[axis] - b.max[axis], b.min[axis] - a.max[axis]);
+  return Math.hypot(gap('x'), gap('y'), gap('z'));
+};
+
+// Faces and centre lines of each neighbour box, as candidate planes per axis
+export const planesFromBoxes = (boxes: Box[]): SnapPlane[] =>
+  boxes.flatMap((box) => {
+    const center = boxCenter(box);
+    return AXES.flatMap((axis): SnapPlane[] => [
+      { axis, value: box.min[axis], kind: 'face', source: box },
+      { axis, value: box.max[axis], kind: 'face', source: box },
+      { axis, value: center[axis], kind: 'centre', source: box },
+    ]);
+  });
+
+/**
+ * Finds, for each free axis, the closest plane that one of the moving box's faces or its centre
+ * can snap to. Faces snap to faces (flush or aligned), the centre snaps to centre lines.
+ */
+export const findGeometrySnap = (
+  moving: Box,
+  planes: SnapPlane[],
+  axes: Axis[],
+  tolerance = GEOMETRY_SNAP_TOLERANCE
+): GeometrySnapResult => {
+  const correction: Vec3 = { x: 0, y: 0, z: 0 };
+  const snappedAxes: Axis[] = [];
+  const matches: Array<{ axis: Axis; plane: SnapPlane }> = [];
+  const movingCenter = boxCenter(moving);
+
+  axes.forEach((axis) => {
+    const features = [
+      { value: moving.min[axis], kind: 'face' as const },
+      { value: moving.max[axis], kind: 'face' as const },
+      { value: movingCenter[axis], kind: 'centre' as const },
+    ];
+
+    let best: { distance: number; delta: number; plane: SnapPlane } | null = null;
+
+    for (const plane of planes) {
+      if (plane.axis !== axis) continue;
+      for (const feature of features) {
+        if (feature.kind !== plane.kind) continue;
+        const delta = plane.value - feature.value;
+        const distance = Math.abs(delta);
+        if (distance <= tolerance && (!best || distance < best.distance)) {
+          best = { distance, delta, plane };
+        }
+      }
+    }
+
+    if (best) {
+      correction[axis] = best.delta;
+      snappedAxes.push(axis);
+      matches.push({ axis, plane: best.plane });
+    }
+  });
+
+  // Guides run from the snapped box to the box it snapped to, lying in the snapped plane
+  const snappedCenter = {
+    x: movingCenter.x + correction.x,
+    y: movingCenter.y + correction.y,
+    z: movingCenter.z + correction.z,
+  };
+
+  const guides = matches.map(({ axis, plane }): SnapGuide => {
+    // Two axes snapped to the same box means the boxes share an edge
+    const sharesEdge = plane.kind === 'face' &&
+      matches.some((other) => other.axis !== axis && other.plane.source && other.plane.source === plane.source);
+    const target = plane.source ? boxCenter(plane.source) : snappedCenter;
+    return {
+      axis,
+      kind: sharesEdge ? 'edge' : plane.kind,
+      from: { ...snappedCenter, [axis]: plane.value },
+      to: { ...target, [axis]: plane.value },
+    };
+  });
+
+  return { correction, snappedAxes, guides };
+};
@@ -0,0 +1,90 @@
+import { MM_PER_FOOT } from "@/lib/coordinates";
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export interface GridPreset {
+  id: string;
+  label: string;
+  system: UnitSystem;
+  feet: number; // Revit internal units; converted to viewer units when snapping
+}
+
+export interface SnapSettings {
+  enabled: boolean;
+  gridPresetId: string;
+  angleStepDegrees: number;
+  geometry: boolean; // also snap to faces and centre lines of nearby elements
+}
+
+export const GRID_PRESETS: GridPreset[] = [
+  { id: 'mm-10', label: '10 mm', system: 'metric', feet: 10 / MM_PER_FOOT },
+  { id: 'mm-50', label: '50 mm', system: 'metric', feet: 50 / MM_PER_FOOT },
+  { id: 'mm-100', label: '100 mm', system: 'metric', feet: 100 / MM_PER_FOOT },
+  { id: 'mm-500', label: '500 mm', system: 'metric', feet: 500 / MM_PER_FOOT },
+  { id: 'm-1', label: '1 m', system: 'metric', feet: 1000 / MM_PER_FOOT },
+  { id: 'in-0.5', label: '1/2"', system: 'imperial', feet: 0.5 / 12 },
+  { id: 'in-1', label: '1"', system: 'imperial', feet: 1 / 12 },
+  { id: 'in-3', label: '3"', system: 'imperial', feet: 3 / 12 },
+  { id: 'in-6', label: '6"', system: 'imperial', feet: 6 / 12 },
+  { id: 'ft-1', label: "1'", system: 'imperial', feet: 1 },
+];
+
+export const ANGLE_STEP_PRESETS = [1, 5, 15, 45, 90];
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  enabled: true,
+  gridPresetId: 'mm-100',
+  angleStepDegrees: 15,
+  geometry: true,
+};
+
+// Keyboard nudges move by one grid step, or this many with Shift held
+export const LARGE_NUDGE_GRID_STEPS = 10;
+
+const SNAP_SETTINGS_STORAGE_KEY = 'transform_snap_settings';
+
+export const getGridPreset = (id: string): GridPreset =>
+  GRID_PRESETS.find((preset) => preset.id === id) ||
+  GRID_PRESETS.find((preset) => preset.id === DEFAULT_SNAP_SETTINGS.gridPresetId)!;
+
+export const loadSnapSettings = (): SnapSettings => {
+  const stored = localStorage.getItem(SNAP_SETTINGS_STORAGE_KEY);
+  if (!stored) return DEFAULT_SNAP_SETTINGS;
+
+  try {
+    return { ...DEFAULT_SNAP_SETTINGS, ...JSON.parse(stored) };
+  } catch {
+    return DEFAULT_SNAP_SETTINGS;
+  }
+};
+
+export const saveSnapSettings = (settings: SnapSettings) => {
+  localStorage.setItem(SNAP_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Holding Alt while dragging or nudging places freely
+export const isSnapSuspended = (event: { altKey: boolean }) => event.altKey;
+
+// Rounds to the nearest multiple of step, dropping float noise like 0.30000000000000004
+export const snapValue = (value: number, step: number) => {
+  if (!(step > 0)) return value;
+  return parseFloat((Math.round(value / step) * step).toFixed(10));
+};
+
+// Snaps only the listed components, so a drag along X doesn't disturb a free-placed Y
+export const snapComponents = <T extends { x: number; y: number; z: number }>(
+  vector: T,
+  step: number,
+  components: Array<'x' | 'y' | 'z'>
+): T => {
+  components.forEach((component) => {
+    vector[component] = snapValue(vector[component], step);
+  });
+  return vector;
+};
+
+export const snapAngle = (radians: number, stepDegrees: number) => {
+  if (!(stepDegrees > 0)) return radians;
+  const stepRadians = (stepDegrees * Math.PI) / 180;
+  return Math.round(radians / stepRadians) * stepRadians;
+};
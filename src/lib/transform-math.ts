@@ -0,0 +1,90 @@
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Quat {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+}
+
+// Rotation of an element about `axis` (unit vector) through `pivot`, angle in radians (right-handed)
+export interface RotationChange {
+  axis: Vec3;
+  angle: number;
+  pivot: Vec3;
+}
+
+export type RotationAxis = 'x' | 'y' | 'z';
+
+// Keyboard rotation steps ([ and ]); Shift uses the large step
+export const ROTATION_STEP_DEGREES = 15;
+export const ROTATION_STEP_LARGE_DEGREES = 90;
+
+// Rotations smaller than this are treated as "not rotated"
+const ANGLE_EPSILON = 1e-6;
+
+export const degToRad = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const radToDeg = (radians: number) => (radians * 180) / Math.PI;
+
+export const axisVector = (axis: RotationAxis): Vec3 => ({
+  x: axis === 'x' ? 1 : 0,
+  y: axis === 'y' ? 1 : 0,
+  z: axis === 'z' ? 1 : 0,
+});
+
+/**
+ * Converts a unit quaternion to axis/angle with the angle in (-π, π].
+ * Returns null for the identity rotation.
+ */
+export const quaternionToAxisAngle = (q: Quat): { axis: Vec3; angle: number } | null => {
+  // q and -q describe the same rotation; pick w >= 0 so the angle stays within [0, π]
+  const sign = q.w < 0 ? -1 : 1;
+  const w = Math.min(1, q.w * sign);
+  const angle = 2 * Math.acos(w);
+  const s = Math.sqrt(1 - w * w);
+
+  if (angle < ANGLE_EPSILON || s < ANGLE_EPSILON) return null;
+
+  let axis = { x: (q.x * sign) / s, y: (q.y * sign) / s, z: (q.z * sign) / s };
+  let signedAngle = angle;
+
+  // Report rotations about a negative axis as negative angles about the positive one ("-15° about Z")
+  const dominant = [axis.x, axis.y, axis.z].reduce((a, b) => (Math.abs(b) > Math.abs(a) ? b : a));
+  if (dominant < 0) {
+    axis = { x: -axis.x, y: -axis.y, z: -axis.z };
+    signedAngle = -angle;
+  }
+
+  return { axis, angle: signedAngle };
+};
+
+export const axisAngleToQuaternion = (axis: Vec3, angle: number): Quat => {
+  const length = Math.hypot(axis.x, axis.y, axis.z) || 1;
+  const s = Math.sin(angle / 2) / length;
+  return { x: axis.x * s, y: axis.y * s, z: axis.z * s, w: Math.cos(angle / 2) };
+};
+
+export const isRotationChange = (value: unknown): value is RotationChange => {
+  const rotation = value as RotationChange | null;
+  return (
+    !!rotation &&
+    [rotation.axis, rotation.pivot].every((v) => v && [v.x, v.y, v.z].every(Number.isFinite)) &&
+    Number.isFinite(rotation.angle) &&
+    Math.hypot(rotation.axis.x, rotation.axis.y, rotation.axis.z) > ANGLE_EPSILON
+  );
+};
+
+export const formatRotation = (rotation: RotationChange) => {
+  const { axis } = rotation;
+  const axisLabel =
+    Math.abs(axis.z) > 0.999 ? 'Z' :
+    Math.abs(axis.y) > 0.999 ? 'Y' :
+    Math.abs(axis.x) > 0.999 ? 'X' :
+    `(${axis.x.toFixed(2)}, ${axis.y.toFixed(2)}, ${axis.z.toFixed(2)})`;
+  return `${radToDeg(rotation.angle).toFixed(1)}° about ${axisLabel}`;
+};
@@ -0,0 +1,58 @@
+// The parts of the Autodesk viewer's (untyped) API that the lib modules call, typed for their use.
+// THREE objects stay opaque: the viewer bundles its own THREE build, reached through window.THREE.
+
+export interface InstanceTree {
+  getRootId(): number;
+  getNodeParentId(dbId: number): number;
+  getNodeName(dbId: number): string | undefined;
+  enumNodeFragments(dbId: number, callback: (fragId: number) => void, recursive?: boolean): void;
+  enumNodeChildren(dbId: number, callback: (childId: number) => void, recursive?: boolean): void;
+}
+
+export interface PropertyResult {
+  dbId: number;
+  name?: string;
+  externalId?: string;
+  properties?: Array<{
+    displayName: string;
+    displayValue: string | number | boolean | null;
+    attributeName?: string;
+  }>;
+}
+
+export interface FragmentList {
+  fragments: { fragId2dbId: ArrayLike<number> };
+  getCount(): number;
+  getWorldBounds(fragId: number, bounds: unknown): void;
+}
+
+export interface ViewerModel {
+  getInstanceTree(): InstanceTree;
+  getFragmentList(): FragmentList;
+  getData?(): { globalOffset?: { x?: number; y?: number; z?: number } } | undefined;
+  getUnitScale?(): number;
+  isLoadDone(): boolean;
+  getBulkProperties(
+    dbIds: number[],
+    options: { propFilter?: string[] },
+    onSuccess: (results: PropertyResult[]) => void,
+    onError: () => void
+  ): void;
+}
+
+// Fragment proxies expose the anim transform applied on top of a fragment's loaded placement
+export interface FragmentProxy {
+  position: { copy(vector: unknown): void };
+  quaternion: { copy(quaternion: unknown): void };
+  getAnimTransform(): void;
+  updateAnimTransform(): void;
+}
+
+export interface ModelViewer {
+  model: ViewerModel;
+  impl: {
+    matman(): { addMaterial(name: string, material: unknown, skipHeuristics?: boolean): void };
+    getFragmentProxy(model: ViewerModel, fragId: number): FragmentProxy;
+    invalidate(needsClear: boolean, needsRender?: boolean, overlayDirty?: boolean): void;
+  };
+}
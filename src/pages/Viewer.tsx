@@ -1,7 +1,7 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { FolderTree, ZoomIn, ZoomOut, RotateCcw, Layers, LogIn, Edit3, Save, X, Upload } from "lucide-react";
+import { FolderTree, ZoomIn, ZoomOut, RotateCcw, Layers, LogIn, Edit3, Save, X, Move, Undo2, Redo2 } from "lucide-react";
 import { toast } from "sonner";
 import {
   AlertDialog,
@@ -14,13 +14,108 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { 
   saveTokens, 
   getValidAccessToken, 
   startAuthFlow,
   clearTokens 
 } from '@/lib/autodesk-auth';
+import { normalizeProjectId, useAllowedProjects, type AllowedProject } from "@/hooks/use-allowed-projects";
+import { useItemVersions } from "@/hooks/use-item-versions";
+import { DRAFT_AUTOSAVE_DELAY_MS, useDraft, type DraftKey } from "@/hooks/use-draft";
+import { useEditRules } from "@/hooks/use-edit-rules";
+import { isJobFinished, useJob, type Job, type JobResult } from "@/hooks/use-job";
+import { AccFileBrowser } from "@/components/viewer/AccFileBrowser";
+import { SnapSettingsPopover } from "@/components/viewer/SnapSettingsPopover";
+import { JobProgressPanel } from "@/components/viewer/JobProgressPanel";
+import { TransformPanel, type TransformSelection } from "@/components/viewer/TransformPanel";
+import { ClearanceRulesEditor } from "@/components/viewer/ClearanceRulesEditor";
+import {
+  getStoredHubId,
+  isViewableFileName,
+  pickHub,
+  storeHubId,
+  toViewerDocumentId,
+  type AccHub,
+  type AccProject,
+  type ModelSelection,
+} from "@/lib/acc-files";
+import {
+  ROTATION_STEP_DEGREES,
+  ROTATION_STEP_LARGE_DEGREES,
+  axisAngleToQuaternion,
+  axisVector,
+  degToRad,
+  formatRotation,
+  isRotationChange,
+  quaternionToAxisAngle,
+  type RotationAxis,
+  type RotationChange,
+  type Vec3,
+} from "@/lib/transform-math";
+import {
+  findViolations,
+  loadClearanceSettings,
+  saveClearanceSettings,
+  type ClearanceSettings,
+  type Violation,
+} from "@/lib/clash-detection";
+import { findLockedElements, type EditRule, type ElementLock } from "@/lib/edit-permissions";
+import {
+  LENGTH_UNITS,
+  REVIT_UNITS,
+  feetToViewerUnits,
+  formatLength,
+  formatPoint,
+  getCoordinateSystem,
+  loadLengthUnit,
+  saveLengthUnit,
+  toRevitPoint,
+  toRevitVector,
+  type LengthUnit,
+} from "@/lib/coordinates";
+import {
+  LARGE_NUDGE_GRID_STEPS,
+  getGridPreset,
+  isSnapSuspended,
+  loadSnapSettings,
+  saveSnapSettings,
+  snapAngle,
+  snapComponents,
+  type SnapSettings,
+} from "@/lib/snapping";
+import {
+  GEOMETRY_SNAP_SEARCH_RADIUS,
+  MAX_SNAP_CANDIDATES,
+  boxCenter,
+  boxDistance,
+  findGeometrySnap,
+  planesFromBoxes,
+  translateBox,
+  unionBoxes,
+  type Axis,
+  type Box,
+  type SnapGuide,
+  type SnapPlane,
+} from "@/lib/geometry-snap";
+import {
+  MAX_EDIT_HISTORY,
+  cloneTransform,
+  collectElementBounds,
+  isSameTransform,
+  isUntransformed,
+  setFragmentTransform,
+  type EditCommand,
+  type EditHistory,
+  type ElementEdit,
+  type ElementTransform,
+} from "@/lib/fragment-transforms";
+import type { ModelViewer, PropertyResult, ViewerModel } from "@/lib/viewer-model";
 
 declare global {
   interface Window {
@@ -29,13 +124,51 @@ declare global {
   }
 }
 
-interface Project {
-  id: string;
-  attributes: {
-    name: string;
-  };
+// One edited element, as recorded by the TransformExtension and sent to revit-modify
+interface PendingChange {
+  dbId: number;
+  uniqueId: string;  // Revit UniqueId (GUID)
+  originalPosition: { x: number; y: number; z: number };
+  newPosition: { x: number; y: number; z: number };
+  translation: { x: number; y: number; z: number };
+  rotation: RotationChange | null;  // Applied about the pivot before the translation
+  elementName: string;
+}
+
+// A mesh of the transform gizmo (built with the viewer's untyped THREE)
+interface GizmoMesh {
+  material: { color: { setHex(hex: number): void } };
+  userData: { axis?: string; originalColor: number };
+}
+
+// One grabbable part of the gizmo: a move arrow, a plane square or a rotation ring
+interface GizmoHandle {
+  kind: 'translate' | 'plane' | 'rotate';
+  group: { userData: { axis?: string } };
+  hitTarget: { getWorldPosition(target: unknown): void };
+  visuals: GizmoMesh[];
 }
 
+// What the page calls on the loaded TransformExtension
+interface TransformControls {
+  setFloorDragEnabled(enabled: boolean): void;
+  commitNudge(): void;
+  moveSelectionTo(center: Vec3): void;
+  moveSelectionBy(delta: Vec3): void;
+  refreshSelection(): void;
+}
+
+// A selected element and its transform at the time it was selected
+interface GroupMember extends ElementTransform {
+  dbId: number;
+}
+
+// The save job being followed, kept across reloads so its outcome is still reported
+const ACTIVE_JOB_STORAGE_KEY = 'active_save_job';
+
+// Clearance rules edited in the save dialog are re-checked this long after the last change
+const CLEARANCE_RECHECK_DELAY_MS = 400;
+
 // Build version tracking
 const BUILD_VERSION = "v2.0.0-translation-fix";
 
@@ -168,40 +301,77 @@ const generateDebugReport = (data: {
 };
 
 const Viewer = () => {
-  // SECURITY: Whitelist - only allow this project
-  const ALLOWED_PROJECT_ID = "d27a6383-5881-4756-9cff-3deccd318427";
-  
-  // Hardcoded trial model URL
-  const TRIAL_MODEL_URL = "https://acc.autodesk.com/docs/files/projects/d27a6383-5881-4756-9cff-3deccd318427?folderUrn=urn%3Aadsk.wipprod%3Afs.folder%3Aco.pTXcoJRjSkuopE4nj1Y-yA&entityId=urn%3Aadsk.wipprod%3Adm.lineage%3AzgRrW8akRpaXjYyDJoY-Zg&viewModel=detail&moduleId=folders&viewableGuid=b978b785-e198-7881-d90e-cf5603eb507f";
-  
   const viewerRef = useRef<HTMLDivElement>(null);
-  const transformExtensionRef = useRef<any>(null);
+  const transformExtensionRef = useRef<TransformControls | null>(null);
   const [showSaveDialog, setShowSaveDialog] = useState(false);
   const [viewer, setViewer] = useState<any>(null);
   const [showFileBrowser, setShowFileBrowser] = useState(true);
   const [searchParams] = useSearchParams();
   const [accessToken, setAccessToken] = useState<string | null>(null);
-  const [projects, setProjects] = useState<Project[]>([]);
+  const [accountProjects, setAccountProjects] = useState<AccProject[] | null>(null);
+  const [hubs, setHubs] = useState<AccHub[] | null>(null);
+  const [selectedHubId, setSelectedHubId] = useState<string | null>(null);
+  // Hub of the latest project request; a slower answer for a previously selected hub is dropped
+  const projectsRequestHubRef = useRef<string | null>(null);
+  const [allowedProjectEntries, setAllowedProjectEntries] = useState<AllowedProject[] | null>(null);
   const [loading, setLoading] = useState(false);
-  const [manualProjectId, setManualProjectId] = useState(TRIAL_MODEL_URL);
+  const [manualProjectId, setManualProjectId] = useState('');
   const [editMode, setEditMode] = useState(false);
-  const [pendingChanges, setPendingChanges] = useState<Array<{
-    dbId: number;
-    uniqueId: string;  // Revit UniqueId (GUID)
-    originalPosition: { x: number; y: number; z: number };
-    newPosition: { x: number; y: number; z: number };
-    translation: { x: number; y: number; z: number };
-    elementName: string;
-  }>>([]);
+  const [floorDragMode, setFloorDragMode] = useState(false);
+  const [transformSelection, setTransformSelection] = useState<TransformSelection | null>(null);
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(loadSnapSettings);
+  // The TransformExtension is created once, so it reads snapping through a ref
+  const snapSettingsRef = useRef(snapSettings);
+  // Movability rules of the open project; null until they have loaded
+  const editRulesRef = useRef<EditRule[] | null>(null);
+  const [lengthUnit, setLengthUnit] = useState<LengthUnit>(loadLengthUnit);
+  const [clearanceSettings, setClearanceSettings] = useState<ClearanceSettings>(loadClearanceSettings);
+  // Clashes and clearance problems of the pending changes, found when the save dialog opens
+  const [violations, setViolations] = useState<Violation[]>([]);
+  const [isCheckingViolations, setIsCheckingViolations] = useState(false);
+  // Elements coloured for the current violations, and the pending re-check after a rule edit
+  const violationHighlightsRef = useRef<number[]>([]);
+  const clearanceCheckTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [pendingChanges, setPendingChanges] = useState<PendingChange[]>([]);
+  // Per-element transforms and the undo history live here rather than in the TransformExtension,
+  // which is unloaded whenever edit mode is switched off
+  const transformStateRef = useRef(new Map<number, ElementTransform>());
+  const historyRef = useRef<EditHistory>({ undo: [], redo: [] });
+  const [historyCounts, setHistoryCounts] = useState({ undo: 0, redo: 0 });
+  // Version whose geometry has finished loading, and whose draft has been restored (or found missing);
+  // autosave stays off for a version until its draft has been restored
+  const [geometryLoadedUrn, setGeometryLoadedUrn] = useState<string | null>(null);
+  const draftSyncedUrnRef = useRef<string | null>(null);
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [activeJobId, setActiveJobId] = useState<string | null>(() => localStorage.getItem(ACTIVE_JOB_STORAGE_KEY));
+  const [isCancellingJob, setIsCancellingJob] = useState(false);
+  const [isRetryingJob, setIsRetryingJob] = useState(false);
+  // Job whose outcome has been acted on (model reloaded or debug report fetched)
+  const handledJobIdRef = useRef<string | null>(null);
+  // What the running job was sent, for the debug report if it fails
+  const jobTransformsRef = useRef<unknown>(null);
+  const [saveAsNewVersion, setSaveAsNewVersion] = useState(true);
+  // Design Automation reads the file straight from ACC instead of a staged OSS copy
+  const [readFromAcc, setReadFromAcc] = useState(false);
+  const [currentHubId, setCurrentHubId] = useState<string | null>(null);
   const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
   const [currentItemId, setCurrentItemId] = useState<string | null>(null);
   const [currentFolderUrn, setCurrentFolderUrn] = useState<string | null>(null);
   const [currentVersionUrn, setCurrentVersionUrn] = useState<string | null>(null);
   const [currentFileName, setCurrentFileName] = useState<string | null>(null);
   const [showAuthPrompt, setShowAuthPrompt] = useState(false);
-  const [isReuploading, setIsReuploading] = useState(false);
-  const [ossCoordinates, setOssCoordinates] = useState<{ bucket: string; object: string } | null>(null);
+
+  // SECURITY: Project allowlist is managed server-side in the allowed_projects table
+  const { allowedProjects, isAllowed } = useAllowedProjects(allowedProjectEntries);
+  const projects = useMemo(
+    () => (accountProjects || []).filter((p) => isAllowed(p.id, selectedHubId)),
+    [accountProjects, isAllowed, selectedHubId]
+  );
+  const selectedHub = useMemo(
+    () => hubs?.find((hub) => hub.id === selectedHubId) || null,
+    [hubs, selectedHubId]
+  );
   
   // Helper to extract project ID from URL or return as-is
   const extractProjectId = (input: string): string => {
@@ -247,13 +417,45 @@ const Viewer = () => {
     }
   }, [searchParams]);
 
-  // Fetch projects when authenticated
+  useEffect(() => {
+    snapSettingsRef.current = snapSettings;
+    saveSnapSettings(snapSettings);
+  }, [snapSettings]);
+
+  useEffect(() => {
+    saveLengthUnit(lengthUnit);
+  }, [lengthUnit]);
+
+  useEffect(() => {
+    saveClearanceSettings(clearanceSettings);
+  }, [clearanceSettings]);
+
+  // Fetch hubs when authenticated
   useEffect(() => {
     if (accessToken) {
-      fetchProjects();
+      fetchHubs();
     }
   }, [accessToken]);
 
+  // Fetch the projects of the selected hub
+  useEffect(() => {
+    if (selectedHubId) {
+      fetchProjects(selectedHubId);
+    }
+  }, [selectedHubId]);
+
+  // Once both the account projects and the allowlist are known, report what the file browser can show
+  useEffect(() => {
+    if (!accountProjects || !allowedProjects) return;
+
+    if (projects.length === 0) {
+      toast.error('No authorized projects found');
+      return;
+    }
+
+    toast.success(`${projects.length} project${projects.length !== 1 ? 's' : ''} loaded - pick a model in the file browser`);
+  }, [accountProjects, allowedProjects]);
+
   const ensureValidToken = async (): Promise<string> => {
     const token = await getValidAccessToken();
     if (!token) {
@@ -264,48 +466,149 @@ const Viewer = () => {
     return token;
   };
 
-  const fetchProjects = async () => {
+  // Version history of the loaded item; the first entry is the tip
+  const {
+    versions,
+    tipVersion,
+    refetch: refetchVersions,
+    isFetching: isFetchingVersions,
+  } = useItemVersions(currentProjectId, currentHubId, currentItemId, ensureValidToken);
+  const { job: activeJob } = useJob(activeJobId, ensureValidToken);
+  const isJobRunning = !!activeJobId && !isJobFinished(activeJob);
+
+  // Only a running job is picked up again after a reload
+  useEffect(() => {
+    if (activeJobId && isJobRunning) {
+      localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, activeJobId);
+    } else {
+      localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    }
+  }, [activeJobId, isJobRunning]);
+
+  const { editRules, isSuccess: hasEditRules } = useEditRules(currentProjectId);
+  useEffect(() => {
+    editRulesRef.current = hasEditRules ? editRules : null;
+  }, [editRules, hasEditRules]);
+
+  const loadedVersion = versions?.find((version) => version.id === currentVersionUrn) || null;
+  const isStaleVersion = !!tipVersion && !!currentVersionUrn && tipVersion.id !== currentVersionUrn;
+
+  const draftKey: DraftKey | null = useMemo(
+    () => currentProjectId && currentItemId && currentVersionUrn
+      ? { projectId: currentProjectId, hubId: currentHubId, itemId: currentItemId, versionUrn: currentVersionUrn }
+      : null,
+    [currentProjectId, currentHubId, currentItemId, currentVersionUrn]
+  );
+  const { draft, isFetched: isDraftFetched, saveDraft, deleteDraft } = useDraft(draftKey, ensureValidToken);
+
+  // Pending changes are listed in Revit coordinates, in the length unit the user prefers
+  const formatRevitPoint = (point: Vec3) =>
+    viewer?.model ? formatPoint(toRevitPoint(point, getCoordinateSystem(viewer.model)), lengthUnit) : '';
+
+  // Reapply the draft of a reopened version once its fragments are in
+  useEffect(() => {
+    if (!draftKey || geometryLoadedUrn !== draftKey.versionUrn || !isDraftFetched) return;
+    if (draftSyncedUrnRef.current === draftKey.versionUrn) return;
+
+    draftSyncedUrnRef.current = draftKey.versionUrn;
+    // Reopening the same version keeps its pending edits, but its geometry comes back as loaded
+    reapplyTransformState();
+    if (draft) {
+      restoreDraftChanges(draft.changes as unknown as PendingChange[]);
+    }
+  }, [draft, draftKey, geometryLoadedUrn, isDraftFetched]);
+
+  // Autosave pending changes as a draft of the loaded version (deleting it once nothing is pending)
+  useEffect(() => {
+    if (!draftKey || draftSyncedUrnRef.current !== draftKey.versionUrn) return;
+
+    if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+    const key = draftKey;
+    const changes = pendingChanges;
+    autosaveTimerRef.current = setTimeout(() => {
+      autosaveTimerRef.current = null;
+      const request = changes.length > 0
+        ? saveDraft(key, changes as unknown as Json)
+        : deleteDraft(key);
+      request.catch((error) => console.warn('Draft autosave failed:', error));
+    }, DRAFT_AUTOSAVE_DELAY_MS);
+  }, [pendingChanges]);
+
+  const fetchHubs = async () => {
+    setLoading(true);
+
+    try {
+      const token = await ensureValidToken();
+
+      const { data, error } = await supabase.functions.invoke('autodesk-hubs', {
+        body: { token },
+      });
+
+      if (error) {
+        console.error('Supabase function error:', error);
+        toast.error(`Error: ${error.message}`);
+        return;
+      }
+
+      const availableHubs: AccHub[] = data.data || [];
+      console.log('Hubs:', availableHubs);
+      setHubs(availableHubs);
+
+      const hub = pickHub(availableHubs, getStoredHubId());
+      if (!hub) {
+        toast.error('No BIM 360/ACC hubs found for this account');
+        return;
+      }
+      setSelectedHubId(hub.id);
+    } catch (error) {
+      console.error('Error fetching hubs:', error);
+      toast.error(`Failed to load hubs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleHubChange = (hubId: string) => {
+    storeHubId(hubId);
+    setAccountProjects(null);
+    setSelectedHubId(hubId);
+  };
+
+  const fetchProjects = async (hubId: string) => {
+    projectsRequestHubRef.current = hubId;
+    const isStale = () => projectsRequestHubRef.current !== hubId;
     setLoading(true);
     
     try {
       const token = await ensureValidToken();
-      console.log('Fetching projects with valid token');
+      console.log('Fetching projects for hub:', hubId);
       
       const { data, error } = await supabase.functions.invoke('autodesk-projects', {
-        body: { token },
+        body: { token, hubId },
       });
 
       console.log('Projects response:', { data, error });
 
+      if (isStale()) {
+        console.log('Ignoring projects of previously selected hub:', hubId);
+        return;
+      }
+
       if (error) {
         console.error('Supabase function error:', error);
         toast.error(`Error: ${error.message}`);
         return;
       }
       
-      const allProjects = data.data || [];
-      
-      // SECURITY: Frontend should only show whitelisted project
-      const whitelistedProjects = allProjects.filter((p: Project) => 
-        p.id.replace('b.', '') === ALLOWED_PROJECT_ID
-      );
-      
-      if (whitelistedProjects.length === 0) {
-        toast.error('No authorized projects found');
-        return;
-      }
-      
-      setProjects(whitelistedProjects);
-      toast.success('Project loaded');
-      
-      // Auto-load the whitelisted project
-      console.log('Auto-loading authorized project');
-      setTimeout(() => loadModel(TRIAL_MODEL_URL), 1000);
+      // The projects are already filtered server-side; the entries also gate models opened by URL
+      setAllowedProjectEntries(data.allowedProjects || []);
+      setAccountProjects(data.data || []);
     } catch (error) {
+      if (isStale()) return;
       console.error('Error fetching projects:', error);
       toast.error(`Failed to load projects: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
-      setLoading(false);
+      if (!isStale()) setLoading(false);
     }
   };
 
@@ -368,18 +671,96 @@ const Viewer = () => {
     };
   }, [accessToken]);
 
-  const loadModel = async (input: string) => {
-    const projectId = extractProjectId(input);
-    
+  // Loads a specific file version into the viewer and makes it the target for edits
+  const openModelVersion = (selection: ModelSelection) => {
+    const projectId = normalizeProjectId(selection.projectId);
+
     // SECURITY: Validate project ID on frontend
-    if (projectId !== ALLOWED_PROJECT_ID) {
-      toast.error(`Access denied: Only project ${ALLOWED_PROJECT_ID} is authorized`);
+    if (!isAllowed(projectId, selection.hubId)) {
+      toast.error(`Access denied: Project ${projectId} is not authorized`);
       console.error('Security: Attempted to load unauthorized project:', projectId);
       return;
     }
-    
+
+    if (!viewer) {
+      console.error('Viewer not initialized');
+      toast.error("Viewer not initialized");
+      return;
+    }
+
+    console.log('Opening model version:', selection);
+
+    if (selection.versionUrn !== currentVersionUrn) {
+      // Pending edits belong to the previously loaded model (they stay in its draft)
+      setPendingChanges([]);
+      resetEditHistory();
+    }
+    // Whatever is pending is reapplied from the draft once the geometry is back
+    draftSyncedUrnRef.current = null;
+    setGeometryLoadedUrn(null);
+
+    setCurrentHubId(selection.hubId);
     setCurrentProjectId(projectId);
-    
+    setCurrentFolderUrn(selection.folderUrn);
+    setCurrentItemId(selection.itemId);
+    setCurrentVersionUrn(selection.versionUrn);
+    setCurrentFileName(selection.fileName);
+
+    const documentId = toViewerDocumentId(selection.versionUrn);
+    console.log('Loading document:', documentId);
+
+    window.Autodesk.Viewing.Document.load(
+      documentId,
+      (doc: any) => {
+        console.log('Document loaded successfully:', doc);
+        const defaultModel = doc.getRoot().getDefaultGeometry();
+        viewer.loadDocumentNode(doc, defaultModel).then((model: ViewerModel) => {
+          // Drafts can only be reapplied once every fragment has loaded
+          const onGeometryLoaded = (event: { model: ViewerModel }) => {
+            if (event.model !== model) return;
+            viewer.removeEventListener(window.Autodesk.Viewing.GEOMETRY_LOADED_EVENT, onGeometryLoaded);
+            setGeometryLoadedUrn(selection.versionUrn);
+          };
+
+          if (model.isLoadDone()) {
+            setGeometryLoadedUrn(selection.versionUrn);
+          } else {
+            viewer.addEventListener(window.Autodesk.Viewing.GEOMETRY_LOADED_EVENT, onGeometryLoaded);
+          }
+        });
+        toast.success(`Model loaded: ${selection.fileName}`);
+      },
+      (error: any) => {
+        console.error('Model load error:', error);
+        toast.error(`Failed to load model (error ${error})`);
+      }
+    );
+  };
+
+  const handleVersionChange = (versionUrn: string) => {
+    if (!currentProjectId || !currentItemId || !currentFileName) return;
+
+    if (pendingChanges.length > 0) {
+      toast(`${pendingChanges.length} unsaved change${pendingChanges.length !== 1 ? 's are' : ' is'} kept as a draft of the previous version`);
+    }
+
+    openModelVersion({
+      hubId: currentHubId,
+      projectId: currentProjectId,
+      folderUrn: currentFolderUrn,
+      itemId: currentItemId,
+      versionUrn,
+      fileName: currentFileName,
+    });
+  };
+
+  // Quick load: resolves a project ID or pasted ACC URL to a file, then opens its latest version
+  const loadModel = async (input: string) => {
+    const projectId = extractProjectId(input);
+
+    // SECURITY: autodesk-files checks the project against the allowlist once it knows the project's hub,
+    // and openModelVersion checks it again on the frontend
+
     // Extract folderUrn and entityId from ACC URL if present
     let folderUrn: string | undefined;
     let entityId: string | undefined;
@@ -388,13 +769,11 @@ const Viewer = () => {
       const folderMatch = input.match(/folderUrn=([^&]+)/);
       if (folderMatch) {
         folderUrn = decodeURIComponent(folderMatch[1]);
-        setCurrentFolderUrn(folderUrn);
       }
       
       const entityMatch = input.match(/entityId=([^&]+)/);
       if (entityMatch) {
         entityId = decodeURIComponent(entityMatch[1]);
-        setCurrentItemId(entityId);
       }
     }
     
@@ -430,11 +809,7 @@ const Viewer = () => {
 
       // Find first viewable item (looking for supported formats)
       const items = filesData.data || filesData.included || [];
-      const viewableItem = items.find((item: any) => {
-        const ext = item.attributes?.displayName?.toLowerCase() || '';
-        return ext.includes('.rvt') || ext.includes('.ifc') || ext.includes('.nwd') || 
-               ext.includes('.dwg') || ext.includes('.dwf');
-      });
+      const viewableItem = items.find((item: any) => isViewableFileName(item.attributes?.displayName));
 
       if (!viewableItem) {
         console.error('No viewable files found');
@@ -454,36 +829,15 @@ const Viewer = () => {
       }
 
       console.log('Version URN:', tipVersionUrn);
-      setCurrentItemId(viewableItem.id);
-      setCurrentVersionUrn(tipVersionUrn);
-      setCurrentFileName(viewableItem.attributes.displayName);
-      setOssCoordinates(null); // Reset OSS coordinates for new model
-      
-      // Base64 encode the version URN for the viewer
-      // Convert to base64 using btoa (browser's built-in function)
-      const base64Urn = btoa(tipVersionUrn)
-        .replace(/\+/g, '-')
-        .replace(/\//g, '_')
-        .replace(/=+$/, ''); // URL-safe base64
-      
-      const documentId = 'urn:' + base64Urn;
-      
-      console.log('Base64 encoded URN:', base64Urn);
-      console.log('Loading document:', documentId);
-      
-      window.Autodesk.Viewing.Document.load(
-        documentId,
-        (doc: any) => {
-          console.log('Document loaded successfully:', doc);
-          const defaultModel = doc.getRoot().getDefaultGeometry();
-          viewer.loadDocumentNode(doc, defaultModel);
-          toast.success(`Model loaded: ${viewableItem.attributes.displayName}`);
-        },
-        (error: any) => {
-          console.error('Model load error:', error);
-          toast.error(`Failed to load model (error ${error})`);
-        }
-      );
+
+      openModelVersion({
+        hubId: filesData.hubId ?? null, // pasted URLs carry no hub; autodesk-files resolves the project's real hub
+        projectId,
+        folderUrn: folderUrn || viewableItem.relationships?.parent?.data?.id || null,
+        itemId: viewableItem.id,
+        versionUrn: tipVersionUrn,
+        fileName: viewableItem.attributes.displayName,
+      });
     } catch (error) {
       console.error('Load error:', error);
       toast.error(`Error loading model: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -520,7 +874,7 @@ const Viewer = () => {
       if (!transformExtensionRef.current) {
         createTransformExtension();
       }
-      toast.success("Edit mode enabled - Select elements to move them");
+      toast.success("Edit mode enabled - Select elements to move or rotate them (Ctrl+click to move several together, [ and ] rotate)");
     } else {
       // Disable transform extension
       if (transformExtensionRef.current) {
@@ -531,6 +885,226 @@ const Viewer = () => {
     }
   };
 
+  const toggleFloorDragMode = () => {
+    const enabled = !floorDragMode;
+    setFloorDragMode(enabled);
+    transformExtensionRef.current?.setFloorDragEnabled(enabled);
+    toast(enabled
+      ? "Drag on floor enabled - drag the selected element to slide it horizontally"
+      : "Drag on floor disabled");
+  };
+
+  // Writes an element's transform to pendingChanges, or drops its entry when it is back where it was loaded
+  const syncPendingChange = (dbId: number, transform: ElementTransform | null, notify = false) => {
+    if (!transform || isUntransformed(transform)) {
+      setPendingChanges((prev) => prev.filter((c) => c.dbId !== dbId));
+      return;
+    }
+
+    const { pivot, offset } = transform;
+    const axisAngle = quaternionToAxisAngle(transform.rotation);
+    const newPos = {
+      x: pivot.x + offset.x,
+      y: pivot.y + offset.y,
+      z: pivot.z + offset.z
+    };
+    const rotation: RotationChange | null = axisAngle
+      ? { axis: axisAngle.axis, angle: axisAngle.angle, pivot: { ...pivot } }
+      : null;
+
+    // Get element properties including UniqueId
+    viewer.model.getProperties(dbId, (result: PropertyResult) => {
+      // An undo may have moved the element on while the properties were loading
+      if (!isSameTransform(transformStateRef.current.get(dbId) ?? null, transform)) return;
+
+      const elementName = result.name || `Element ${dbId}`;
+      
+      // Extract UniqueId (Revit GUID) from properties
+      let uniqueId = null;
+      if (result.externalId) {
+        uniqueId = result.externalId;
+      } else if (result.properties) {
+        const uniqueIdProp = result.properties.find(
+          (p) => p.attributeName === 'UniqueId' || p.displayName === 'UniqueId'
+        );
+        if (uniqueIdProp) {
+          uniqueId = uniqueIdProp.displayValue;
+        }
+      }
+      
+      if (!uniqueId) {
+        console.warn(`No UniqueId found for element ${dbId}, using dbId as fallback`);
+      }
+      
+      // Add to pending changes with UniqueId
+      setPendingChanges((prev) => {
+        const existing = prev.findIndex((c) => c.dbId === dbId);
+        
+        const change: PendingChange = {
+          dbId,
+          uniqueId: uniqueId || `fallback-${dbId}`,
+          originalPosition: { ...pivot },
+          newPosition: newPos,
+          translation: { x: offset.x, y: offset.y, z: offset.z },
+          rotation,
+          elementName
+        };
+        
+        if (existing >= 0) {
+          const updated = [...prev];
+          updated[existing] = change;
+          return updated;
+        } else {
+          return [...prev, change];
+        }
+      });
+      
+      if (!notify) return;
+      toast.success(rotation ? `Transformed ${elementName} (${formatRotation(rotation)})` : `Moved ${elementName}`);
+    });
+  };
+
+  const updateHistoryCounts = () => {
+    setHistoryCounts({ undo: historyRef.current.undo.length, redo: historyRef.current.redo.length });
+  };
+
+  const pushEditCommand = (command: EditCommand) => {
+    const history = historyRef.current;
+    history.undo.push(command);
+    if (history.undo.length > MAX_EDIT_HISTORY) {
+      history.undo.shift();
+    }
+    history.redo = [];
+    updateHistoryCounts();
+  };
+
+  const resetEditHistory = () => {
+    transformStateRef.current.clear();
+    historyRef.current = { undo: [], redo: [] };
+    updateHistoryCounts();
+  };
+
+  // Puts each element of an edit into its `before` or `after` state, fragments and pending entry alike
+  const applyEdits = (edits: ElementEdit[], side: 'before' | 'after') => {
+    if (!viewer) return;
+
+    edits.forEach((edit) => {
+      const transform = edit[side];
+      if (transform) {
+        transformStateRef.current.set(edit.dbId, transform);
+      } else {
+        transformStateRef.current.delete(edit.dbId);
+      }
+      setFragmentTransform(viewer, edit.dbId, transform);
+      syncPendingChange(edit.dbId, transform);
+    });
+
+    // The gizmo keeps its own copy of the selection's transforms
+    transformExtensionRef.current?.refreshSelection();
+  };
+
+  const undoEdit = () => {
+    // Nudges of a key that is still held down become their own step first
+    transformExtensionRef.current?.commitNudge();
+    const command = historyRef.current.undo.pop();
+    if (!command) return;
+
+    historyRef.current.redo.push(command);
+    applyEdits(command.edits, 'before');
+    updateHistoryCounts();
+    toast(`Undo: ${command.label}`);
+  };
+
+  const redoEdit = () => {
+    transformExtensionRef.current?.commitNudge();
+    const command = historyRef.current.redo.pop();
+    if (!command) return;
+
+    historyRef.current.undo.push(command);
+    applyEdits(command.edits, 'after');
+    updateHistoryCounts();
+    toast(`Redo: ${command.label}`);
+  };
+
+  // Ctrl+Z / Ctrl+Y (or Ctrl+Shift+Z) step through the edit history while editing, but not while a save
+  // is running; the listener reads the latest handlers through a ref
+  const historyShortcutsRef = useRef({ undo: undoEdit, redo: redoEdit });
+  historyShortcutsRef.current = { undo: undoEdit, redo: redoEdit };
+  const historyShortcutsEnabled = editMode && !isJobRunning;
+
+  useEffect(() => {
+    if (!historyShortcutsEnabled) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+
+      // Leave text fields their own undo
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        historyShortcutsRef.current.undo();
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        historyShortcutsRef.current.redo();
+      }
+    };
+
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [historyShortcutsEnabled]);
+
+  // Puts elements back where they were loaded, as one undoable step
+  const revertElements = (dbIds: number[], label: string) => {
+    const edits: ElementEdit[] = dbIds
+      .filter((dbId) => transformStateRef.current.has(dbId))
+      .map((dbId) => ({ dbId, before: transformStateRef.current.get(dbId)!, after: null }));
+
+    if (edits.length > 0) {
+      pushEditCommand({ label, edits });
+      applyEdits(edits, 'after');
+    }
+    // Entries without a recorded transform can't be put back, but shouldn't be saved either
+    setPendingChanges((prev) => prev.filter((c) => !dbIds.includes(c.dbId)));
+  };
+
+  const revertChange = (change: PendingChange) => {
+    revertElements([change.dbId], `Revert ${change.elementName}`);
+    toast(`Reverted ${change.elementName}`);
+  };
+
+  // Puts every element with a pending edit back where the edit left it (after its geometry was reloaded)
+  const reapplyTransformState = () => {
+    if (!viewer) return;
+    transformStateRef.current.forEach((transform, dbId) => setFragmentTransform(viewer, dbId, transform));
+  };
+
+  // Moves the elements of a reopened version's draft back and lists them as pending again.
+  // Elements edited while the draft was loading keep those edits.
+  const restoreDraftChanges = (changes: PendingChange[]) => {
+    if (!viewer) return;
+
+    const restored = changes.filter((change) => !transformStateRef.current.has(change.dbId));
+    restored.forEach((change) => {
+      const transform: ElementTransform = {
+        pivot: { ...change.originalPosition },
+        offset: { ...change.translation },
+        rotation: change.rotation
+          ? axisAngleToQuaternion(change.rotation.axis, change.rotation.angle)
+          : { x: 0, y: 0, z: 0, w: 1 },
+      };
+      transformStateRef.current.set(change.dbId, transform);
+      setFragmentTransform(viewer, change.dbId, transform);
+    });
+
+    if (restored.length === 0) return;
+    setPendingChanges((prev) => [...prev, ...restored]);
+    transformExtensionRef.current?.refreshSelection();
+    toast.success(`Restored ${restored.length} unsaved change${restored.length !== 1 ? 's' : ''} from your draft`);
+  };
+
   const createTransformExtension = () => {
     if (!viewer || !window.Autodesk) return;
 
@@ -538,18 +1112,127 @@ const Viewer = () => {
     class TransformExtension extends window.Autodesk.Viewing.Extension {
       constructor(viewer: any, options: any) {
         super(viewer, options);
-        this.selectedDbId = null;
+        this.selectedDbIds = [];
+        // Each selected element's pivot/offset/rotation when it was selected; the gizmo's
+        // offset and rotation (about originalPosition) are applied on top, moving them as one body
+        this.groupMembers = [];
         this.gizmoGroup = null;
         this.gizmoHandles = [];
         this.originalPosition = null;
         this.accumulatedOffset = new window.THREE.Vector3(0, 0, 0);
+        this.accumulatedRotation = new window.THREE.Quaternion();
+        // Per-element pivot/offset/rotation, so re-selecting an element continues from where it was left
+        this.transformState = transformStateRef.current;
         this.raycaster = new window.THREE.Raycaster();
         this.keyboardHandler = null;
+        this.keyUpHandler = null;
+        // Keyboard nudges since the last history step; a held key makes one step, recorded on key-up
+        this.nudgePending = false;
         this.hoveredAxis = null;
+        // Guide lines shown while a drag is snapped to nearby geometry
+        this.snapGuideGroup = null;
+        this.snapGuideMaterials = {};
+        // When on, dragging the selected element itself slides it horizontally
+        this.floorDragEnabled = !!options?.floorDrag;
+        this.selectionRequest = 0;
+      }
+
+      setFloorDragEnabled(enabled: boolean) {
+        this.floorDragEnabled = enabled;
+      }
+
+      // Active grid step (viewer units) and angle step, or null when snapping is off or suspended with Alt
+      getSnap(event: { altKey: boolean }) {
+        const settings: SnapSettings | undefined = this.options?.getSnapSettings?.();
+        if (!settings?.enabled || isSnapSuspended(event)) return null;
+        return {
+          grid: feetToViewerUnits(getGridPreset(settings.gridPresetId).feet, getCoordinateSystem(this.viewer.model)),
+          angleStepDegrees: settings.angleStepDegrees,
+          geometry: settings.geometry
+        };
+      }
+
+      // World bounds of an element as currently displayed (includes any move/rotation applied so far)
+      getElementBounds(dbId: number): Box | null {
+        const model = this.viewer.model;
+        const fragList = model.getFragmentList();
+        const elementBounds = new window.THREE.Box3();
+        let fragmentCount = 0;
+
+        model.getInstanceTree().enumNodeFragments(dbId, (fragId: number) => {
+          const bounds = new window.THREE.Box3();
+          fragList.getWorldBounds(fragId, bounds);
+          elementBounds.union(bounds);
+          fragmentCount++;
+        }, true);
+
+        if (fragmentCount === 0) return null;
+        return {
+          min: { x: elementBounds.min.x, y: elementBounds.min.y, z: elementBounds.min.z },
+          max: { x: elementBounds.max.x, y: elementBounds.max.y, z: elementBounds.max.z },
+        };
+      }
+
+      // Faces and centre lines of the elements around `bounds`, nearest first and capped
+      // so dragging stays responsive in large models
+      collectSnapPlanes(excludedDbIds: number[], bounds: Box): SnapPlane[] {
+        const boxesByDbId = collectElementBounds(this.viewer.model);
+        excludedDbIds.forEach((dbId) => boxesByDbId.delete(dbId));
+
+        const neighbours = Array.from(boxesByDbId.values())
+          .map((box) => ({ box, distance: boxDistance(box, bounds) }))
+          .filter(({ distance }) => distance <= GEOMETRY_SNAP_SEARCH_RADIUS)
+          .sort((a, b) => a.distance - b.distance)
+          .slice(0, MAX_SNAP_CANDIDATES)
+          .map(({ box }) => box);
+
+        return planesFromBoxes(neighbours);
+      }
+
+      showSnapGuides(guides: SnapGuide[]) {
+        this.clearSnapGuides();
+        if (guides.length === 0) return;
+
+        const viewer = this.viewer;
+        this.snapGuideGroup = new window.THREE.Group();
+
+        guides.forEach((guide) => {
+          const geometry = new window.THREE.Geometry();
+          geometry.vertices.push(
+            new window.THREE.Vector3(guide.from.x, guide.from.y, guide.from.z),
+            new window.THREE.Vector3(guide.to.x, guide.to.y, guide.to.z)
+          );
+          this.snapGuideGroup.add(new window.THREE.Line(geometry, this.snapGuideMaterials[guide.kind]));
+        });
+
+        viewer.impl.sceneAfter.add(this.snapGuideGroup);
+        viewer.impl.invalidate(true);
+      }
+
+      // Guides are redrawn on every pointer move; their geometry is freed here, the materials are shared
+      clearSnapGuides() {
+        if (!this.snapGuideGroup) return;
+        this.viewer.impl.sceneAfter.remove(this.snapGuideGroup);
+        this.snapGuideGroup.children.forEach((line: { geometry: { dispose: () => void } }) => line.geometry.dispose());
+        this.snapGuideGroup = null;
+        this.viewer.impl.invalidate(true);
       }
 
       load() {
         console.log('TransformExtension loaded');
+
+        // One material per kind of snap guide, registered once
+        const guideColors: Record<SnapGuide['kind'], number> = { face: 0xff00ff, edge: 0xffa500, centre: 0x00ffff };
+        this.snapGuideMaterials = {};
+        (Object.keys(guideColors) as SnapGuide['kind'][]).forEach((kind) => {
+          const material = new window.THREE.LineBasicMaterial({
+            color: guideColors[kind],
+            linewidth: 2,
+            depthTest: false
+          });
+          this.viewer.impl.matman().addMaterial(`snap-guide-${kind}`, material, true);
+          this.snapGuideMaterials[kind] = material;
+        });
         
         // Listen for selection events
         this.viewer.addEventListener(
@@ -560,6 +1243,8 @@ const Viewer = () => {
         // Add keyboard controls
         this.keyboardHandler = this.onKeyDown.bind(this);
         document.addEventListener('keydown', this.keyboardHandler);
+        this.keyUpHandler = () => this.commitNudge();
+        document.addEventListener('keyup', this.keyUpHandler);
         
         return true;
       }
@@ -573,31 +1258,72 @@ const Viewer = () => {
         if (this.keyboardHandler) {
           document.removeEventListener('keydown', this.keyboardHandler);
         }
+        if (this.keyUpHandler) {
+          document.removeEventListener('keyup', this.keyUpHandler);
+        }
         
         if (this.gizmoGroup) {
           this.removeGizmo();
         }
+
+        Object.keys(this.snapGuideMaterials).forEach((kind) => {
+          this.viewer.impl.matman().removeMaterial(`snap-guide-${kind}`);
+          this.snapGuideMaterials[kind].dispose();
+        });
+        this.snapGuideMaterials = {};
         
         return true;
       }
 
-      onSelectionChanged(event: any) {
-        const selection = event.dbIdArray;
+      async onSelectionChanged(event: { dbIdArray?: number[] }) {
+        const selection = event.dbIdArray || [];
+        // Property lookups are async; a newer selection supersedes this one
+        const request = ++this.selectionRequest;
         
-        if (selection && selection.length === 1) {
-          this.selectedDbId = selection[0];
-          this.accumulatedOffset.set(0, 0, 0);
-          this.showGizmo(selection[0]);
-        } else {
-          this.removeGizmo();
-          this.selectedDbId = null;
+        this.removeGizmo();
+        if (selection.length === 0) return;
+
+        const locks = await this.findLocks(selection);
+        if (request !== this.selectionRequest) return;
+
+        if (locks.length > 0) {
+          this.options?.onLockedSelection?.(locks);
+          return;
+        }
+        this.showGizmo(selection);
+      }
+
+      // Selected elements the project's edit rules don't allow to be moved
+      async findLocks(dbIds: number[]): Promise<ElementLock[]> {
+        const rules: EditRule[] | null = this.options?.getEditRules?.() ?? null;
+        const lockAll = (reason: string) => dbIds.map((dbId) => ({
+          dbId,
+          name: this.viewer.model.getInstanceTree().getNodeName(dbId) || `Element ${dbId}`,
+          reason
+        }));
+
+        // Nothing may be moved until the rules are known
+        if (!rules) return lockAll('edit permissions for this project have not loaded');
+
+        try {
+          return await findLockedElements(this.viewer.model, dbIds, rules);
+        } catch (error) {
+          console.error('Failed to check edit permissions:', error);
+          return lockAll('its properties could not be checked against the edit permissions');
         }
       }
 
       onKeyDown(event: KeyboardEvent) {
-        if (!this.selectedDbId) return;
+        if (this.selectedDbIds.length === 0) return;
+
+        // Don't hijack keys while the user is typing in an input
+        const target = event.target as HTMLElement | null;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
         
-        const step = event.shiftKey ? 1.0 : 0.1;
+        const snap = this.getSnap(event);
+        const step = snap
+          ? snap.grid * (event.shiftKey ? LARGE_NUDGE_GRID_STEPS : 1)
+          : event.shiftKey ? 1.0 : 0.1;
         let offset = new window.THREE.Vector3(0, 0, 0);
         let handled = false;
         
@@ -626,16 +1352,43 @@ const Viewer = () => {
             offset.z = -step;
             handled = true;
             break;
+          case '[':
+          case ']':
+          case '{': // Shift+[ on US layouts
+          case '}': {
+            // Rotate about the vertical axis in fixed steps ([ = counter-clockwise, ] = clockwise)
+            const stepDegrees = event.shiftKey
+              ? ROTATION_STEP_LARGE_DEGREES
+              : snap ? snap.angleStepDegrees : ROTATION_STEP_DEGREES;
+            const direction = event.key === '[' || event.key === '{' ? 1 : -1;
+            this.rotateBy('z', degToRad(stepDegrees * direction));
+            event.preventDefault();
+            this.nudgePending = true;
+            this.notifySelection();
+            return;
+          }
         }
         
         if (handled) {
           event.preventDefault();
           this.accumulatedOffset.add(offset);
-          this.moveFragment(this.selectedDbId, this.accumulatedOffset);
+          if (snap) {
+            snapComponents(this.accumulatedOffset, snap.grid, (['x', 'y', 'z'] as const).filter((c) => offset[c] !== 0));
+          }
+          this.applyGroupTransform();
           this.updateGizmoPosition();
+          this.nudgePending = true;
+          this.notifySelection();
         }
       }
 
+      // Records the keyboard nudges made so far as one history step
+      commitNudge() {
+        if (!this.nudgePending) return;
+        this.nudgePending = false;
+        this.recordChanges();
+      }
+
       createAxisHandle(viewer: any, axis: string, color: number, direction: any) {
         const shaftRadius = 0.05;
         const shaftLength = 2.0;
@@ -713,74 +1466,242 @@ const Viewer = () => {
         group.add(cone);
         group.add(hitTarget);
         
-        return { group, shaft, cone, hitTarget };
+        return { kind: 'translate', group, shaft, cone, hitTarget, visuals: [shaft, cone] };
+      }
+
+      createPlaneHandle(viewer: ModelViewer, plane: 'xy' | 'xz' | 'yz', color: number) {
+        const size = 0.6;
+        const inset = 0.5;
+        const normal = plane === 'xy'
+          ? new window.THREE.Vector3(0, 0, 1)
+          : plane === 'xz'
+            ? new window.THREE.Vector3(0, 1, 0)
+            : new window.THREE.Vector3(1, 0, 0);
+
+        const group = new window.THREE.Group();
+        group.userData.axis = plane;
+
+        // Square between the two axes it moves along, facing along the remaining one
+        const squareGeometry = new window.THREE.PlaneGeometry(size, size);
+        squareGeometry.computeBoundingSphere();
+        const squareMaterial = new window.THREE.MeshBasicMaterial({
+          color,
+          transparent: true,
+          opacity: 0.5,
+          side: window.THREE.DoubleSide
+        });
+        viewer.impl.matman().addMaterial(`gizmo-plane-${plane}`, squareMaterial, true);
+        const square = new window.THREE.Mesh(squareGeometry, squareMaterial);
+        square.userData.axis = plane;
+        square.userData.originalColor = color;
+        square.quaternion.setFromUnitVectors(new window.THREE.Vector3(0, 0, 1), normal);
+        square.position.set(
+          plane.includes('x') ? inset + size / 2 : 0,
+          plane.includes('y') ? inset + size / 2 : 0,
+          plane.includes('z') ? inset + size / 2 : 0
+        );
+
+        group.add(square);
+
+        return { kind: 'plane', group, square, hitTarget: square, visuals: [square] };
       }
 
-      showGizmo(dbId: number) {
+      createRotationRing(viewer: ModelViewer, axis: RotationAxis, color: number) {
+        const ringRadius = 1.6;
+        const ringTube = 0.04;
+        const handleAxis = `r${axis}`;
+        const normal = new window.THREE.Vector3(axisVector(axis).x, axisVector(axis).y, axisVector(axis).z);
+
+        const group = new window.THREE.Group();
+        group.userData.axis = handleAxis;
+        // TorusGeometry lies in the XY plane; turn it so it circles the rotation axis
+        group.quaternion.setFromUnitVectors(new window.THREE.Vector3(0, 0, 1), normal);
+
+        const ringGeometry = new window.THREE.TorusGeometry(ringRadius, ringTube, 8, 48);
+        ringGeometry.computeBoundingSphere();
+        const ringMaterial = new window.THREE.MeshBasicMaterial({
+          color,
+          side: window.THREE.DoubleSide
+        });
+        viewer.impl.matman().addMaterial(`gizmo-ring-${axis}`, ringMaterial, true);
+        const ring = new window.THREE.Mesh(ringGeometry, ringMaterial);
+        ring.userData.axis = handleAxis;
+        ring.userData.originalColor = color;
+
+        // Invisible, thicker torus for easier picking
+        const hitGeometry = new window.THREE.TorusGeometry(ringRadius, 0.25, 8, 48);
+        hitGeometry.computeBoundingSphere();
+        const hitMaterial = new window.THREE.MeshBasicMaterial({
+          transparent: true,
+          opacity: 0,
+          color,
+          side: window.THREE.DoubleSide
+        });
+        viewer.impl.matman().addMaterial(`gizmo-ring-hit-${axis}`, hitMaterial, true);
+        const hitTarget = new window.THREE.Mesh(hitGeometry, hitMaterial);
+        hitTarget.userData.axis = handleAxis;
+        hitTarget.userData.originalColor = color;
+        hitTarget.userData.isHitTarget = true;
+
+        group.add(ring);
+        group.add(hitTarget);
+
+        return { kind: 'rotate', group, ring, hitTarget, visuals: [ring] };
+      }
+
+      showGizmo(dbIds: number[]) {
         const viewer = this.viewer;
-        const model = viewer.model;
-        
-        // Get the bounding box of the selected element
-        const tree = model.getInstanceTree();
-        const fragList = model.getFragmentList();
-        
-        tree.enumNodeFragments(dbId, (fragId: number) => {
-          const bounds = new window.THREE.Box3();
-          fragList.getWorldBounds(fragId, bounds);
-          
-          const center = bounds.getCenter(new window.THREE.Vector3());
-          
-          // Store original position
-          this.originalPosition = { x: center.x, y: center.y, z: center.z };
-          
-          // Create gizmo group with custom handles
-          if (!this.gizmoGroup) {
-            this.gizmoGroup = new window.THREE.Group();
-            this.gizmoGroup.position.copy(center);
-            this.gizmoHandles = [];
-            
-            // X axis (red)
-            const xHandle = this.createAxisHandle(
-              viewer,
-              'x',
-              0xff0000,
-              new window.THREE.Vector3(1, 0, 0)
-            );
-            this.gizmoGroup.add(xHandle.group);
-            this.gizmoHandles.push(xHandle);
-            
-            // Y axis (green)
-            const yHandle = this.createAxisHandle(
-              viewer,
-              'y',
-              0x00ff00,
-              new window.THREE.Vector3(0, 1, 0)
-            );
-            this.gizmoGroup.add(yHandle.group);
-            this.gizmoHandles.push(yHandle);
-            
-            // Z axis (blue)
-            const zHandle = this.createAxisHandle(
-              viewer,
-              'z',
-              0x0000ff,
-              new window.THREE.Vector3(0, 0, 1)
-            );
-            this.gizmoGroup.add(zHandle.group);
-            this.gizmoHandles.push(zHandle);
-            
-            // Use sceneAfter for proper raycasting
-            // (overlay scenes have different coordinate systems that break raycasting)
-            viewer.impl.sceneAfter.add(this.gizmoGroup);
+        const members = dbIds
+          .map((dbId) => ({ dbId, bounds: this.getElementBounds(dbId) }))
+          .filter((member): member is { dbId: number; bounds: Box } => member.bounds !== null);
+
+        if (members.length === 0) return;
+
+        if (members.length === 1) {
+          // A single element pivots about its own centre, restoring an earlier edit of it if there is one
+          const { dbId, bounds } = members[0];
+          const state = this.transformState.get(dbId);
+          if (state) {
+            this.originalPosition = { ...state.pivot };
+            this.accumulatedOffset.copy(state.offset);
+            this.accumulatedRotation.copy(state.rotation);
           } else {
-            this.gizmoGroup.position.copy(center);
+            this.originalPosition = boxCenter(bounds);
+            this.accumulatedOffset.set(0, 0, 0);
+            this.accumulatedRotation.set(0, 0, 0, 1);
           }
+          this.groupMembers = [{
+            dbId,
+            pivot: { ...this.originalPosition },
+            offset: new window.THREE.Vector3(0, 0, 0),
+            rotation: new window.THREE.Quaternion()
+          }];
+        } else {
+          // A group pivots about the centre of its combined bounds, on top of each element's earlier edit
+          this.originalPosition = boxCenter(unionBoxes(members.map((member) => member.bounds)));
+          this.accumulatedOffset.set(0, 0, 0);
+          this.accumulatedRotation.set(0, 0, 0, 1);
+          this.groupMembers = members.map(({ dbId, bounds }) => {
+            const state = this.transformState.get(dbId);
+            return {
+              dbId,
+              pivot: state ? { ...state.pivot } : boxCenter(bounds),
+              offset: new window.THREE.Vector3(0, 0, 0).copy(state?.offset || { x: 0, y: 0, z: 0 }),
+              rotation: state ? new window.THREE.Quaternion().copy(state.rotation) : new window.THREE.Quaternion()
+            };
+          });
+        }
+        this.selectedDbIds = members.map((member) => member.dbId);
           
-          viewer.impl.invalidate(true);
+        // Create gizmo group with custom handles
+        this.gizmoGroup = new window.THREE.Group();
+        this.gizmoHandles = [];
+        
+        // X axis (red)
+        const xHandle = this.createAxisHandle(
+          viewer,
+          'x',
+          0xff0000,
+          new window.THREE.Vector3(1, 0, 0)
+        );
+        this.gizmoGroup.add(xHandle.group);
+        this.gizmoHandles.push(xHandle);
+        
+        // Y axis (green)
+        const yHandle = this.createAxisHandle(
+          viewer,
+          'y',
+          0x00ff00,
+          new window.THREE.Vector3(0, 1, 0)
+        );
+        this.gizmoGroup.add(yHandle.group);
+        this.gizmoHandles.push(yHandle);
+        
+        // Z axis (blue)
+        const zHandle = this.createAxisHandle(
+          viewer,
+          'z',
+          0x0000ff,
+          new window.THREE.Vector3(0, 0, 1)
+        );
+        this.gizmoGroup.add(zHandle.group);
+        this.gizmoHandles.push(zHandle);
+
+        // Plane handles (colour of the axis they don't move along)
+        ([['xy', 0x0000ff], ['xz', 0x00ff00], ['yz', 0xff0000]] as const).forEach(([plane, planeColor]) => {
+          const planeHandle = this.createPlaneHandle(viewer, plane, planeColor);
+          this.gizmoGroup.add(planeHandle.group);
+          this.gizmoHandles.push(planeHandle);
+        });
+
+        // Rotation rings (same colour code as the axis they rotate about)
+        (['x', 'y', 'z'] as RotationAxis[]).forEach((axis) => {
+          const ringColor = axis === 'x' ? 0xff0000 : axis === 'y' ? 0x00ff00 : 0x0000ff;
+          const ringHandle = this.createRotationRing(viewer, axis, ringColor);
+          this.gizmoGroup.add(ringHandle.group);
+          this.gizmoHandles.push(ringHandle);
+        });
+        
+        // Use sceneAfter for proper raycasting
+        // (overlay scenes have different coordinate systems that break raycasting)
+        viewer.impl.sceneAfter.add(this.gizmoGroup);
+        this.updateGizmoPosition();
           
-          // Add drag controls
-          this.enableDragging(dbId, center);
-        }, true);
+        // Add drag controls
+        this.enableDragging();
+        this.notifySelection();
+      }
+
+      // Tells the numeric transform panel what is selected and where its centre is
+      notifySelection() {
+        const onSelection = this.options?.onSelectionChange;
+        if (!onSelection) return;
+
+        if (!this.originalPosition || this.selectedDbIds.length === 0) {
+          onSelection(null);
+          return;
+        }
+
+        const model = this.viewer.model;
+        const selection: TransformSelection = {
+          dbIds: [...this.selectedDbIds],
+          name: this.selectedDbIds.length === 1
+            ? model.getInstanceTree().getNodeName(this.selectedDbIds[0]) || `Element ${this.selectedDbIds[0]}`
+            : `${this.selectedDbIds.length} elements`,
+          center: {
+            x: this.originalPosition.x + this.accumulatedOffset.x,
+            y: this.originalPosition.y + this.accumulatedOffset.y,
+            z: this.originalPosition.z + this.accumulatedOffset.z
+          }
+        };
+        onSelection(selection);
+      }
+
+      // Typed input: moves the selection so the gizmo sits `offset` away from where the selection started
+      setOffset(offset: Vec3) {
+        if (!this.originalPosition) return;
+        this.commitNudge();
+        this.accumulatedOffset.set(offset.x, offset.y, offset.z);
+        this.applyGroupTransform();
+        this.updateGizmoPosition();
+        this.recordChanges();
+      }
+
+      moveSelectionTo(center: Vec3) {
+        if (!this.originalPosition) return;
+        this.setOffset({
+          x: center.x - this.originalPosition.x,
+          y: center.y - this.originalPosition.y,
+          z: center.z - this.originalPosition.z
+        });
+      }
+
+      moveSelectionBy(delta: Vec3) {
+        this.setOffset({
+          x: this.accumulatedOffset.x + delta.x,
+          y: this.accumulatedOffset.y + delta.y,
+          z: this.accumulatedOffset.z + delta.z
+        });
       }
 
       updateGizmoPosition() {
@@ -797,13 +1718,31 @@ const Viewer = () => {
         this.viewer.impl.invalidate(true);
       }
 
-      enableDragging(dbId: number, initialPos: any) {
+      // Adds a rotation about a world axis on top of the element's current rotation
+      rotateBy(axis: RotationAxis, angle: number) {
+        if (this.selectedDbIds.length === 0) return;
+        const direction = axisVector(axis);
+        const delta = new window.THREE.Quaternion().setFromAxisAngle(
+          new window.THREE.Vector3(direction.x, direction.y, direction.z),
+          angle
+        );
+        // Viewer ships THREE r71 (no premultiply); multiplyQuaternions is alias-safe
+        this.accumulatedRotation.multiplyQuaternions(delta, this.accumulatedRotation);
+        this.applyGroupTransform();
+      }
+
+      enableDragging() {
         const viewer = this.viewer;
         let isDragging = false;
         let dragAxis: string | null = null;
         let dragStartPoint = new window.THREE.Vector3();
         let dragPlaneNormal = new window.THREE.Vector3();
         let dragPlane = new window.THREE.Plane();
+        const dragStartOffset = new window.THREE.Vector3();
+        const dragStartRotation = new window.THREE.Quaternion();
+        // Bounds and nearby snap planes captured when a move drag starts
+        let dragStartBounds: Box | null = null;
+        let dragSnapPlanes: SnapPlane[] = [];
         
         // Helper to construct proper ray for both perspective and orthographic cameras
         const getRayFromMouse = (clientX: number, clientY: number) => {
@@ -836,11 +1775,11 @@ const Viewer = () => {
         };
         
         const highlightAxis = (axis: string | null) => {
-          this.gizmoHandles.forEach(handle => {
+          this.gizmoHandles.forEach((handle: GizmoHandle) => {
             const isHighlighted = handle.group.userData.axis === axis;
-            const color = isHighlighted ? 0xffff00 : handle.shaft.userData.originalColor;
-            handle.shaft.material.color.setHex(color);
-            handle.cone.material.color.setHex(color);
+            handle.visuals.forEach((mesh) => {
+              mesh.material.color.setHex(isHighlighted ? 0xffff00 : mesh.userData.originalColor);
+            });
           });
           this.hoveredAxis = axis;
           viewer.impl.invalidate(true);
@@ -848,23 +1787,116 @@ const Viewer = () => {
         
         const getAxisDirection = (axis: string) => {
           switch(axis) {
-            case 'x': return new window.THREE.Vector3(1, 0, 0);
-            case 'y': return new window.THREE.Vector3(0, 1, 0);
-            case 'z': return new window.THREE.Vector3(0, 0, 1);
+            case 'x':
+            case 'rx': return new window.THREE.Vector3(1, 0, 0);
+            case 'y':
+            case 'ry': return new window.THREE.Vector3(0, 1, 0);
+            case 'z':
+            case 'rz': return new window.THREE.Vector3(0, 0, 1);
             default: return new window.THREE.Vector3(0, 0, 0);
           }
         };
+
+        const isRotationAxis = (axis: string | null) => !!axis && axis.startsWith('r');
+
+        // Plane handles and floor drag move freely within a plane instead of along one axis
+        const getPlaneComponents = (axis: string): Array<'x' | 'y' | 'z'> =>
+          axis === 'floor' ? ['x', 'y'] : (axis.split('') as Array<'x' | 'y' | 'z'>);
+
+        const getPlaneNormal = (axis: string) => {
+          switch(axis) {
+            case 'xy':
+            case 'floor': return new window.THREE.Vector3(0, 0, 1);
+            case 'xz': return new window.THREE.Vector3(0, 1, 0);
+            case 'yz': return new window.THREE.Vector3(1, 0, 0);
+            default: return null;
+          }
+        };
+
+        // Picks the model under the cursor (for floor drag, which grabs the element itself)
+        const hitSelectedElement = (event: PointerEvent) => {
+          const rect = viewer.canvas.getBoundingClientRect();
+          const hit = viewer.impl.hitTest(event.clientX - rect.left, event.clientY - rect.top, false);
+          return hit && this.selectedDbIds.includes(hit.dbId) ? hit : null;
+        };
+
+        // Face of another element under the cursor, as a plane along its dominant normal axis
+        const getFacePlaneUnderCursor = (event: PointerEvent): SnapPlane | null => {
+          const rect = viewer.canvas.getBoundingClientRect();
+          const hit = viewer.impl.hitTest(event.clientX - rect.left, event.clientY - rect.top, false);
+          if (!hit || this.selectedDbIds.includes(hit.dbId) || !hit.face) return null;
+
+          const worldMatrix = new window.THREE.Matrix4();
+          viewer.model.getFragmentList().getWorldMatrix(hit.fragId, worldMatrix);
+          const normal = hit.face.normal.clone().transformDirection(worldMatrix);
+          const axis = (['x', 'y', 'z'] as Axis[]).reduce((a, b) =>
+            Math.abs(normal[b]) > Math.abs(normal[a]) ? b : a
+          );
+          return { axis, value: hit.intersectPoint[axis], kind: 'face', source: null };
+        };
+
+        // Geometry snapping wins on the axes it catches; the rest fall back to the grid
+        const snapOffset = (
+          snap: { grid: number; geometry: boolean } | null,
+          components: Axis[],
+          event: PointerEvent
+        ) => {
+          if (!snap) {
+            this.clearSnapGuides();
+            return;
+          }
+
+          let gridComponents = components;
+          if (snap.geometry && dragStartBounds) {
+            const facePlane = getFacePlaneUnderCursor(event);
+            const planes = facePlane ? [...dragSnapPlanes, facePlane] : dragSnapPlanes;
+            const moving = translateBox(dragStartBounds, this.accumulatedOffset.clone().sub(dragStartOffset));
+            const result = findGeometrySnap(moving, planes, components);
+
+            result.snappedAxes.forEach((axis) => {
+              this.accumulatedOffset[axis] += result.correction[axis];
+            });
+            gridComponents = components.filter((axis) => !result.snappedAxes.includes(axis));
+            this.showSnapGuides(result.guides);
+          }
+
+          snapComponents(this.accumulatedOffset, snap.grid, gridComponents);
+        };
         
         const onPointerMove = (event: PointerEvent) => {
           if (isDragging && dragAxis) {
+            const snap = this.getSnap(event);
+
             // Get mouse ray using manual unproject for overlay scene
             getRayFromMouse(event.clientX, event.clientY);
             
             // Intersect with drag plane
             const intersection = new window.THREE.Vector3();
-            this.raycaster.ray.intersectPlane(dragPlane, intersection);
+            const hit = this.raycaster.ray.intersectPlane(dragPlane, intersection);
             
-            if (intersection) {
+            if (hit && isRotationAxis(dragAxis)) {
+              // Signed angle swept around the ring since the drag started
+              const axisDir = getAxisDirection(dragAxis);
+              const center = this.gizmoGroup.position;
+              const from = dragStartPoint.clone().sub(center);
+              const to = intersection.clone().sub(center);
+              const angle = Math.atan2(
+                axisDir.dot(from.clone().cross(to)),
+                from.dot(to)
+              );
+
+              const snappedAngle = snap ? snapAngle(angle, snap.angleStepDegrees) : angle;
+              const delta = new window.THREE.Quaternion().setFromAxisAngle(axisDir, snappedAngle);
+              this.accumulatedRotation.multiplyQuaternions(delta, dragStartRotation);
+              this.applyGroupTransform();
+            } else if (hit && getPlaneNormal(dragAxis)) {
+              // Both points lie on the drag plane, so their difference is the in-plane move
+              this.accumulatedOffset.copy(dragStartOffset).add(intersection.clone().sub(dragStartPoint));
+              snapOffset(snap, getPlaneComponents(dragAxis), event);
+
+              this.applyGroupTransform();
+              this.updateGizmoPosition();
+            } else if (hit) {
               // Project to axis
               const axisDir = getAxisDirection(dragAxis);
               const delta = intersection.clone().sub(dragStartPoint);
@@ -872,10 +1904,11 @@ const Viewer = () => {
               
               // Update offset along the axis
               const offset = axisDir.clone().multiplyScalar(projection);
-              this.accumulatedOffset.copy(offset);
+              this.accumulatedOffset.copy(dragStartOffset).add(offset);
+              snapOffset(snap, [dragAxis as Axis], event);
               
               // Move fragment and update gizmo
-              this.moveFragment(dbId, this.accumulatedOffset);
+              this.applyGroupTransform();
               this.updateGizmoPosition();
             }
             
@@ -905,7 +1938,7 @@ const Viewer = () => {
             }
           }
         };
-        
+
         const onPointerDown = (event: PointerEvent) => {
           if (event.button !== 0) return;
           
@@ -930,12 +1963,13 @@ const Viewer = () => {
           }
           
           // Fallback: Distance-based hit detection if standard raycasting found nothing
+          // (arrows only - the rings share the gizmo centre, so a distance test can't tell them apart)
           if (intersects.length === 0 && this.gizmoGroup) {
             const HIT_THRESHOLD = 1.0;  // Distance threshold for hit
             let closestAxis = null;
             let closestDistance = HIT_THRESHOLD;
             
-            this.gizmoHandles.forEach((handle) => {
+            this.gizmoHandles.filter((handle: GizmoHandle) => handle.kind === 'translate').forEach((handle: GizmoHandle) => {
               const worldPos = new window.THREE.Vector3();
               handle.hitTarget.getWorldPosition(worldPos);
               
@@ -959,19 +1993,48 @@ const Viewer = () => {
             }
           }
           
+          // Floor drag: grabbing the selected element slides it across a horizontal plane
+          // (parallel to its level) through the grabbed point
+          let floorGrabPoint = null;
+          if (intersects.length === 0 && this.floorDragEnabled) {
+            const elementHit = hitSelectedElement(event);
+            if (elementHit) {
+              floorGrabPoint = elementHit.intersectPoint.clone();
+              intersects.push({ object: { userData: { axis: 'floor' } } });
+            }
+          }
+          
           if (intersects.length > 0) {
+            this.commitNudge();
             isDragging = true;
             dragAxis = intersects[0].object.userData.axis;
+            dragStartOffset.copy(this.accumulatedOffset);
+            dragStartRotation.copy(this.accumulatedRotation);
+            if (!isRotationAxis(dragAxis)) {
+              const bounds = this.selectedDbIds
+                .map((selectedDbId: number) => this.getElementBounds(selectedDbId))
+                .filter((box: Box | null): box is Box => box !== null);
+              dragStartBounds = bounds.length > 0 ? unionBoxes(bounds) : null;
+              dragSnapPlanes = dragStartBounds ? this.collectSnapPlanes(this.selectedDbIds, dragStartBounds) : [];
+            }
             
-            // Setup drag plane perpendicular to camera and containing axis
-            const camera = viewer.navigation.getCamera();
             const axisDir = getAxisDirection(dragAxis);
-            const cameraDir = camera.getWorldDirection(new window.THREE.Vector3());
-            dragPlaneNormal.crossVectors(axisDir, cameraDir).normalize();
-            dragPlaneNormal.crossVectors(dragPlaneNormal, axisDir).normalize();
-            
             const gizmoPos = this.gizmoGroup.position.clone();
-            dragPlane.setFromNormalAndCoplanarPoint(dragPlaneNormal, gizmoPos);
+            const planeNormal = getPlaneNormal(dragAxis);
+
+            if (planeNormal) {
+              dragPlane.setFromNormalAndCoplanarPoint(planeNormal, floorGrabPoint || gizmoPos);
+            } else if (isRotationAxis(dragAxis)) {
+              // Rings are dragged in their own plane
+              dragPlane.setFromNormalAndCoplanarPoint(axisDir, gizmoPos);
+            } else {
+              // Setup drag plane perpendicular to camera and containing axis
+              const camera = viewer.navigation.getCamera();
+              const cameraDir = camera.getWorldDirection(new window.THREE.Vector3());
+              dragPlaneNormal.crossVectors(axisDir, cameraDir).normalize();
+              dragPlaneNormal.crossVectors(dragPlaneNormal, axisDir).normalize();
+              dragPlane.setFromNormalAndCoplanarPoint(dragPlaneNormal, gizmoPos);
+            }
             
             // Get start point on plane
             this.raycaster.ray.intersectPlane(dragPlane, dragStartPoint);
@@ -987,70 +2050,14 @@ const Viewer = () => {
           
           isDragging = false;
           dragAxis = null;
+          dragStartBounds = null;
+          dragSnapPlanes = [];
+          this.clearSnapGuides();
           viewer.impl.controls.setIsLocked(false);
           viewer.canvas.style.cursor = this.hoveredAxis ? 'grab' : 'default';
           
           // Record the change
-          if (this.originalPosition && this.accumulatedOffset.length() > 0) {
-            const newPos = {
-              x: this.originalPosition.x + this.accumulatedOffset.x,
-              y: this.originalPosition.y + this.accumulatedOffset.y,
-              z: this.originalPosition.z + this.accumulatedOffset.z
-            };
-            
-            // Get element properties including UniqueId
-            viewer.model.getProperties(dbId, (result: any) => {
-              const elementName = result.name || `Element ${dbId}`;
-              
-              // Extract UniqueId (Revit GUID) from properties
-              let uniqueId = null;
-              if (result.externalId) {
-                uniqueId = result.externalId;
-              } else if (result.properties) {
-                const uniqueIdProp = result.properties.find(
-                  (p: any) => p.attributeName === 'UniqueId' || p.displayName === 'UniqueId'
-                );
-                if (uniqueIdProp) {
-                  uniqueId = uniqueIdProp.displayValue;
-                }
-              }
-              
-              if (!uniqueId) {
-                console.warn(`No UniqueId found for element ${dbId}, using dbId as fallback`);
-              }
-              
-              // Add to pending changes with UniqueId
-              setPendingChanges((prev: any) => {
-                const existing = prev.findIndex((c: any) => c.dbId === dbId);
-                
-                // Calculate translation delta
-                const translation = {
-                  x: newPos.x - this.originalPosition.x,
-                  y: newPos.y - this.originalPosition.y,
-                  z: newPos.z - this.originalPosition.z
-                };
-                
-                const change = {
-                  dbId,
-                  uniqueId: uniqueId || `fallback-${dbId}`,
-                  originalPosition: this.originalPosition,
-                  newPosition: newPos,
-                  translation,
-                  elementName
-                };
-                
-                if (existing >= 0) {
-                  const updated = [...prev];
-                  updated[existing] = change;
-                  return updated;
-                } else {
-                  return [...prev, change];
-                }
-              });
-              
-              toast.success(`Moved ${elementName}`);
-            });
-          }
+          this.recordChanges();
           
           event.stopPropagation();
         };
@@ -1069,24 +2076,81 @@ const Viewer = () => {
         };
       }
 
-      moveFragment(dbId: number, totalOffset: any) {
-        const viewer = this.viewer;
-        const model = viewer.model;
-        const tree = model.getInstanceTree();
-        
-        tree.enumNodeFragments(dbId, (fragId: number) => {
-          const fragProxy = viewer.impl.getFragmentProxy(model, fragId);
-          fragProxy.getAnimTransform();
-          
-          // Add to current position instead of replacing
-          fragProxy.position.set(totalOffset.x, totalOffset.y, totalOffset.z);
-          fragProxy.updateAnimTransform();
-        }, true);
-        
-        viewer.impl.invalidate(true, true, true);
+      // Final pivot/offset/rotation of a selected element: its start state with the gizmo's
+      // rotation (about originalPosition) and offset applied on top
+      getMemberTransform(member: GroupMember): ElementTransform {
+        const groupCenter = new window.THREE.Vector3(
+          this.originalPosition.x,
+          this.originalPosition.y,
+          this.originalPosition.z
+        );
+        const pivot = new window.THREE.Vector3(member.pivot.x, member.pivot.y, member.pivot.z);
+        const rotation = this.accumulatedRotation.clone().multiply(member.rotation);
+        const offset = pivot.clone().add(member.offset).sub(groupCenter)
+          .applyQuaternion(this.accumulatedRotation)
+          .add(groupCenter)
+          .add(this.accumulatedOffset)
+          .sub(pivot);
+        return { pivot: { ...member.pivot }, offset, rotation };
+      }
+
+      // Moves every selected element with the gizmo
+      applyGroupTransform() {
+        if (!this.originalPosition) return;
+        this.groupMembers.forEach((member: GroupMember) => {
+          setFragmentTransform(this.viewer, member.dbId, this.getMemberTransform(member));
+        });
+      }
+
+      // Records the selection's current transforms as one undoable step
+      recordChanges() {
+        if (!this.originalPosition) return;
+        this.notifySelection();
+
+        const edits: ElementEdit[] = this.groupMembers
+          .map((member: GroupMember) => {
+            const transform = cloneTransform(this.getMemberTransform(member));
+            return {
+              dbId: member.dbId,
+              before: this.transformState.get(member.dbId) ?? null,
+              after: isUntransformed(transform) ? null : transform
+            };
+          })
+          .filter((edit: ElementEdit) => !isSameTransform(edit.before, edit.after));
+
+        if (edits.length === 0) return;
+
+        // A group gets one summary toast instead of one per element
+        const notifyEach = edits.length === 1;
+        edits.forEach((edit) => {
+          if (edit.after) {
+            this.transformState.set(edit.dbId, edit.after);
+          } else {
+            this.transformState.delete(edit.dbId);
+          }
+          syncPendingChange(edit.dbId, edit.after, notifyEach);
+        });
+
+        pushEditCommand({
+          label: notifyEach ? 'Transform element' : `Transform ${edits.length} elements`,
+          edits
+        });
+        if (!notifyEach) {
+          toast.success(`Transformed ${edits.length} elements`);
+        }
+      }
+
+      // Re-reads the selection's transforms after they were changed from outside (undo/redo, revert)
+      refreshSelection() {
+        const selection = [...this.selectedDbIds];
+        this.removeGizmo();
+        if (selection.length > 0) {
+          this.showGizmo(selection);
+        }
       }
 
       removeGizmo() {
+        this.commitNudge();
         if (this.gizmoGroup) {
           // Remove from sceneAfter (matching the add location)
           this.viewer.impl.sceneAfter.remove(this.gizmoGroup);
@@ -1096,11 +2160,17 @@ const Viewer = () => {
         
         if (this.dragCleanup) {
           this.dragCleanup();
+          this.dragCleanup = null;
         }
-        
+
+        this.clearSnapGuides();
+        this.selectedDbIds = [];
+        this.groupMembers = [];
         this.originalPosition = null;
         this.accumulatedOffset.set(0, 0, 0);
+        this.accumulatedRotation.set(0, 0, 0, 1);
         this.hoveredAxis = null;
+        this.notifySelection();
       }
     }
 
@@ -1111,18 +2181,98 @@ const Viewer = () => {
     );
 
     // Load extension
-    viewer.loadExtension('TransformExtension').then((ext: any) => {
+    viewer.loadExtension('TransformExtension', {
+      floorDrag: floorDragMode,
+      getSnapSettings: () => snapSettingsRef.current,
+      onSelectionChange: setTransformSelection,
+      getEditRules: () => editRulesRef.current,
+      onLockedSelection: handleLockedSelection,
+    }).then((ext: TransformControls) => {
       transformExtensionRef.current = ext;
       console.log('Transform extension loaded');
     });
   };
 
+  const handleLockedSelection = (locks: ElementLock[]) => {
+    const [first] = locks;
+    toast.error(locks.length === 1
+      ? `${first.name} can't be moved: ${first.reason}`
+      : `${locks.length} selected elements can't be moved, e.g. ${first.name}: ${first.reason}`);
+  };
+
+  // Only the elements coloured here are reset, so theming colours set by anything else survive;
+  // a zero-intensity colour leaves the element's own material showing
+  const clearViolationHighlights = () => {
+    if (viewer?.model) {
+      violationHighlightsRef.current.forEach((dbId) => {
+        viewer.setThemingColor(dbId, new window.THREE.Vector4(0, 0, 0, 0), viewer.model, true);
+      });
+    }
+    violationHighlightsRef.current = [];
+  };
+
+  // Red: moved elements with a problem; orange: what they clash with or crowd
+  const highlightViolations = (found: Violation[]) => {
+    if (!viewer?.model) return;
+
+    clearViolationHighlights();
+    found.forEach((violation) => {
+      viewer.setThemingColor(violation.otherDbId, new window.THREE.Vector4(1, 0.6, 0, 0.6), viewer.model, true);
+    });
+    found.forEach((violation) => {
+      viewer.setThemingColor(violation.dbId, new window.THREE.Vector4(1, 0, 0, 0.7), viewer.model, true);
+    });
+    violationHighlightsRef.current = [...new Set(found.flatMap((violation) => [violation.dbId, violation.otherDbId]))];
+  };
+
+  const checkViolations = async (settings: ClearanceSettings = clearanceSettings) => {
+    if (!viewer?.model) return;
+
+    setIsCheckingViolations(true);
+    try {
+      const found = await findViolations(
+        viewer.model,
+        pendingChanges.map((change) => change.dbId),
+        collectElementBounds(viewer.model),
+        getCoordinateSystem(viewer.model),
+        settings
+      );
+      console.log(`Pre-save checks: ${found.length} violation(s)`, found);
+      setViolations(found);
+      highlightViolations(found);
+    } catch (error) {
+      console.error('Pre-save checks failed:', error);
+      setViolations([]);
+    } finally {
+      setIsCheckingViolations(false);
+    }
+  };
+
+  // Edited rules are re-checked once typing pauses
+  const handleClearanceSettingsChange = (settings: ClearanceSettings) => {
+    setClearanceSettings(settings);
+    if (clearanceCheckTimerRef.current) clearTimeout(clearanceCheckTimerRef.current);
+    clearanceCheckTimerRef.current = setTimeout(() => {
+      clearanceCheckTimerRef.current = null;
+      checkViolations(settings);
+    }, CLEARANCE_RECHECK_DELAY_MS);
+  };
+
+  // Highlights describe the changes they were computed for
+  useEffect(() => {
+    setViolations([]);
+    clearViolationHighlights();
+  }, [pendingChanges]);
+
   const handleSaveChanges = () => {
     if (pendingChanges.length === 0) {
       toast.error("No changes to save");
       return;
     }
     setShowSaveDialog(true);
+    // Someone may have published a newer version since this one was loaded
+    refetchVersions();
+    checkViolations();
   };
 
   const confirmSave = async () => {
@@ -1141,25 +2291,23 @@ const Viewer = () => {
         throw new Error('No folder URN available');
       }
 
-      // Check if SSA re-upload has been done
-      if (!ossCoordinates) {
-        toast.error('Please click "SSA Re-upload" button first to upload the file to OSS storage. This is required to avoid memory limits.');
-        return;
-      }
-
       // Transform pendingChanges array into object format with full position data
       const transformsObject: Record<string, { 
         dbId: number;
         elementName: string;
+        units: string;
         originalPosition: { x: number; y: number; z: number };
         newPosition: { x: number; y: number; z: number };
         translation: { x: number; y: number; z: number };
+        rotation?: RotationChange;
       }> = {};
       const validationErrors: string[] = [];
+      // Pending changes are in viewer coordinates; Revit wants internal feet without the viewer's global offset
+      const coordinateSystem = getCoordinateSystem(viewer.model);
 
       console.log('=== Transform Creation Debug ===');
+      console.log('Coordinate system:', coordinateSystem);
       console.log(`Processing ${pendingChanges.length} pending changes`);
-      toast(`Preparing ${pendingChanges.length} transform(s) for save...`);
 
       pendingChanges.forEach((change, index) => {
         console.log(`\n--- Change ${index + 1}/${pendingChanges.length} ---`);
@@ -1247,6 +2395,18 @@ const Viewer = () => {
           return;
         }
 
+        // Validate rotation (optional - only present when the element was rotated)
+        if (change.rotation && !isRotationChange(change.rotation)) {
+          const error = `Element ${change.elementName}: Invalid rotation (axis, angle and pivot must be finite numbers)`;
+          validationErrors.push(error);
+          console.error('❌ VALIDATION ERROR:', error);
+          console.error('rotation:', change.rotation);
+          return;
+        }
+        if (change.rotation) {
+          console.log('Rotation:', formatRotation(change.rotation), change.rotation);
+        }
+
         // Use uniqueId as-is since it already contains the Revit element ID in hex format
         // The Revit UniqueId format is: [GUID]-[ElementId in hex]
         // Example: "8F0B7F3F-D7D8-4B8E-9F3E-1A2B3C4D5E6F-0001f43b"
@@ -1267,21 +2427,13 @@ const Viewer = () => {
         transformsObject[compositeKey] = {
           dbId: change.dbId,
           elementName: change.elementName,
-          originalPosition: {
-            x: change.originalPosition.x,
-            y: change.originalPosition.y,
-            z: change.originalPosition.z
-          },
-          newPosition: {
-            x: change.newPosition.x,
-            y: change.newPosition.y,
-            z: change.newPosition.z
-          },
-          translation: {
-            x: deltaX,
-            y: deltaY,
-            z: deltaZ
-          }
+          units: REVIT_UNITS,
+          originalPosition: toRevitPoint(change.originalPosition, coordinateSystem),
+          newPosition: toRevitPoint(change.newPosition, coordinateSystem),
+          translation: toRevitVector({ x: deltaX, y: deltaY, z: deltaZ }, coordinateSystem),
+          ...(change.rotation
+            ? { rotation: { ...change.rotation, pivot: toRevitPoint(change.rotation.pivot, coordinateSystem) } }
+            : {})
         };
 
         console.log('✓ Transform added successfully');
@@ -1302,7 +2454,6 @@ const Viewer = () => {
       console.log('✓ All transforms validated successfully');
       console.log('\nFinal transforms object:');
       console.log(JSON.stringify(transformsObject, null, 2));
-      toast.success(`✓ Validated ${Object.keys(transformsObject).length} transform(s)`);
 
       const supabaseAnonKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
       const baseUrl = 'https://mbkfbmsjwlgqyzhfjwka.supabase.co/functions/v1';
@@ -1318,16 +2469,18 @@ const Viewer = () => {
       };
 
       // STEP 1: Start the job
-      toast(`Starting Design Automation job with ${Object.keys(transformsObject).length} transform(s)...`);
-      
       const requestPayload = {
         token: accessToken,
         itemId: currentItemId,
+        versionUrn: currentVersionUrn,
         projectId: currentProjectId,
+        hubId: currentHubId,
         folderUrn: currentFolderUrn,
         transforms: transformsObject,
-        ossBucket: ossCoordinates.bucket,
-        ossObject: ossCoordinates.object
+        // 'oss': revit-modify stages the version in OSS on its first save and reuses that copy afterwards;
+        // 'direct': Design Automation reads the ACC file through a signed URL
+        inputMode: readFromAcc ? 'direct' : 'oss',
+        createNewVersion: saveAsNewVersion
       };
 
       // Log the full request payload for debugging
@@ -1340,9 +2493,7 @@ const Viewer = () => {
         projectId: requestPayload.projectId,
         folderUrn: requestPayload.folderUrn,
         transformCount: Object.keys(transformsObject).length,
-        hasOssCoordinates: !!(requestPayload.ossBucket && requestPayload.ossObject),
-        ossBucket: requestPayload.ossBucket,
-        ossObject: requestPayload.ossObject
+        inputMode: requestPayload.inputMode
       });
 
       console.log('\n=== Transform Keys Being Sent ===');
@@ -1375,7 +2526,7 @@ const Viewer = () => {
       const startResult = await startResponse.json();
       console.log('Response body:', startResult);
 
-      if (!startResponse.ok || !startResult.workItemId) {
+      if (!startResponse.ok || !startResult.jobId) {
         console.error('\n❌ Design Automation Start Failed');
         console.error('Response status:', startResponse.status);
         console.error('Response body:', startResult);
@@ -1405,180 +2556,15 @@ const Viewer = () => {
         throw new Error(startResult.message || startResult.error || 'Failed to start Design Automation job');
       }
 
-      const { workItemId, bucketKeyTemp, outputObjectKey, twoLeggedToken } = startResult;
-      console.log('✓ WorkItem created:', workItemId);
+      // The job stages the model and creates the WorkItem itself
+      const { jobId } = startResult;
+      console.log('✓ Save job started:', jobId, `(input: ${startResult.inputMode})`);
       console.log(`✓ Submitted ${Object.keys(transformsObject).length} transform(s) to Design Automation`);
-      toast.success(`Processing ${Object.keys(transformsObject).length} transform(s)...`);
-
-      // STEP 2: Poll for status with adaptive intervals
-      let attempts = 0;
-      const maxAttempts = 60; // 10 minutes max
-      
-      // Adaptive polling: faster initially, slower after 30 seconds
-      const getPollingInterval = (attempt: number) => {
-        if (attempt < 6) return 5000;  // First 30s: every 5s
-        return 10000;  // After: every 10s
-      };
-
-      toast('Processing... (this may take 2-5 minutes)');
-
-      while (attempts < maxAttempts) {
-        const pollInterval = getPollingInterval(attempts);
-        await new Promise(resolve => setTimeout(resolve, pollInterval));
-        attempts++;
-
-        const statusResponse = await fetch(`${baseUrl}/revit-status`, {
-          method: 'POST',
-          headers,
-          body: JSON.stringify({ 
-            workItemId,
-            cachedToken: twoLeggedToken  // Pass cached token to avoid refetching
-          }),
-        });
-
-        if (!statusResponse.ok) {
-          console.warn(`⚠️ Status check failed (attempt ${attempts}):`, statusResponse.status, statusResponse.statusText);
-          continue;
-        }
-
-        const statusData = await statusResponse.json();
-        const status = statusData.status;
-
-        console.log(`\n📊 Work item status (attempt ${attempts}):`, status);
-        if (statusData.progress) {
-          console.log('Progress:', statusData.progress);
-        }
-
-        // Calculate elapsed time based on adaptive polling
-        const elapsedSeconds = attempts <= 6 
-          ? attempts * 5  // First 6 attempts: 5s each
-          : 30 + (attempts - 6) * 10;  // After: 30s base + 10s per additional attempt
-        
-        toast(`Processing... (${elapsedSeconds}s elapsed, status: ${status})`);
-
-        if (status === 'success') {
-          console.log('\n✓ Design Automation processing completed successfully!');
-          toast('Processing complete - uploading to ACC...');
-
-          // STEP 3: Complete the upload to ACC
-          console.log('\n=== Starting ACC Upload ===');
-          console.log('Upload parameters:', {
-            projectId: currentProjectId,
-            itemId: currentItemId,
-            bucketKeyTemp,
-            outputObjectKey
-          });
-
-          const completeResponse = await fetch(`${baseUrl}/revit-complete`, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify({
-              token: accessToken,
-              projectId: currentProjectId,
-              itemId: currentItemId,
-              bucketKeyTemp,
-              outputObjectKey
-            }),
-          });
-
-          console.log('Upload response status:', completeResponse.status, completeResponse.statusText);
-
-          const completeResult = await completeResponse.json();
-          console.log('Upload response body:', completeResult);
-
-          if (!completeResponse.ok) {
-            console.error('\n❌ ACC Upload Failed');
-            console.error('Response status:', completeResponse.status);
-            console.error('Response body:', completeResult);
-            
-            console.error('\n=== FULL ERROR RESPONSE (JSON) ===');
-            console.error(JSON.stringify({
-              status: completeResponse.status,
-              statusText: completeResponse.statusText,
-              headers: Object.fromEntries(completeResponse.headers.entries()),
-              body: completeResult,
-              timestamp: new Date().toISOString(),
-              workItemId,
-              bucketKeyTemp,
-              outputObjectKey
-            }, null, 2));
-            console.error('=== END FULL ERROR RESPONSE ===\n');
-            
-            throw new Error(completeResult.error || completeResult.message || 'Failed to upload to ACC');
-          }
-
-          console.log('\n✓ Upload complete successfully!');
-          console.log(`✓ ${Object.keys(transformsObject).length} transform(s) applied to Revit file`);
-          toast.success(`✓ Saved ${Object.keys(transformsObject).length} transform(s) to Revit file! New version: ${completeResult.versionId}`);
-          
-          // Clear pending changes
-          setPendingChanges([]);
-          return;
-        }
-
-        if (status.startsWith('failed')) {
-          console.error('\n❌ Design Automation Job Failed');
-          console.error('Status:', status);
-          console.error('Full status result:', statusData);
-          
-          console.error('\n=== FULL ERROR RESPONSE (JSON) ===');
-          console.error(JSON.stringify({
-            status,
-            statusData,
-            workItemId,
-            timestamp: new Date().toISOString(),
-            reportContent: statusData.reportContent
-          }, null, 2));
-          console.error('=== END FULL ERROR RESPONSE ===\n');
-
-          if (statusData.reportContent) {
-            console.error('\n📄 FULL Report Content (no truncation):');
-            console.error(statusData.reportContent);
-            
-            console.error('\n📄 Report Content (line by line):');
-            const lines = statusData.reportContent.split('\n');
-            lines.forEach((line: string, i: number) => console.log(`[${i}] ${line}`));
-          }
-
-          if (statusData.reportUrl) {
-            console.error('\n🔗 Click to open full report in browser:');
-            console.error(statusData.reportUrl);
-          }
-
-          // Generate and auto-download debug report
-          console.log('\n📥 Generating debug report...');
-          const debugReport = generateDebugReport({
-            workItemId,
-            status,
-            statusData,
-            transformsSent: transformsObject,
-            error: null
-          });
-          console.log('📥 Debug report generated, size:', debugReport.length, 'bytes');
-          
-          const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-          const filename = `debug-report-${timestamp}.txt`;
-          console.log('📥 Attempting download as:', filename);
-          
-          const downloadSuccess = downloadDebugReport(debugReport, filename);
-          if (downloadSuccess) {
-            console.log('\n✅ Debug report downloaded successfully as', filename);
-            toast.success('Debug report downloaded: ' + filename);
-          } else {
-            console.error('\n❌ Debug report download failed');
-            toast.error('Debug report download failed - check console');
-          }
 
-          const errorMsg = statusData.reportContent
-            ? `Design Automation failed. See full report above or at: ${statusData.reportUrl || 'N/A'}`
-            : 'Design Automation job failed';
-          throw new Error(errorMsg);
-        }
-
-        // Status is 'pending' or 'inprogress', continue polling
-      }
-
-      throw new Error('Job timed out after 10 minutes');
+      // The job finishes server-side (even if the tab is closed); the progress panel follows it from here
+      jobTransformsRef.current = transformsObject;
+      handledJobIdRef.current = null;
+      setActiveJobId(jobId);
 
     } catch (error) {
       console.error('\n=== SAVE ERROR (FULL DETAILS) ===');
@@ -1595,68 +2581,149 @@ const Viewer = () => {
     }
   };
 
-  const clearChanges = () => {
+  const handleJobCompleted = (job: Job) => {
+    const result = job.result as unknown as JobResult;
+    console.log('\n✓ Save job completed:', job.id, result);
+
+    // Another model may be open by now (or none, after a reload); its edits aren't the ones saved
+    if (job.version_urn !== currentVersionUrn) return;
+
+    // Clear pending changes; the job already deleted the draft they were autosaved to
     setPendingChanges([]);
-    toast("Changes cleared");
+    resetEditHistory();
+    if (autosaveTimerRef.current) {
+      clearTimeout(autosaveTimerRef.current);
+      autosaveTimerRef.current = null;
+    }
+
+    // Reload the model from what was just published so further edits start from it
+    if (result.versionId && currentProjectId) {
+      openModelVersion({
+        hubId: currentHubId,
+        projectId: currentProjectId,
+        folderUrn: job.folder_urn || currentFolderUrn,
+        itemId: result.itemId,
+        versionUrn: result.versionId,
+        fileName: result.fileName,
+      });
+      if (result.createdNewVersion) {
+        refetchVersions();
+      }
+    }
   };
 
-  const handleReuploadWithSSA = async () => {
-    setIsReuploading(true);
-    
+  const handleJobFailed = async (job: Job, transformsSent: unknown) => {
+    console.error('\n❌ Save job failed:', job.id, job.error);
+
+    // Only a failed WorkItem has a report; a failed upload to ACC is retried from the progress panel
+    if (!job.work_item_id || job.work_item_status === 'success') return;
+
+    // Fetch the WorkItem's report and debug files for the downloadable debug report
     try {
-      // Validate that all required data is available
-      if (!currentProjectId || !currentFolderUrn || !currentItemId || !currentFileName) {
-        toast.error("Please load a model first before re-uploading");
-        setIsReuploading(false);
-        return;
-      }
-      
-      const token = await ensureValidToken();
-      
-      toast(`Re-uploading ${currentFileName} with SSA app...`);
-      
-      const { data, error } = await supabase.functions.invoke('reupload-file-ssa', {
-        body: {
-          userToken: token,
-          projectId: currentProjectId,
-          folderUrn: currentFolderUrn,
-          itemUrn: currentItemId,
-          fileName: currentFileName
-        },
+      const { data: statusData, error } = await supabase.functions.invoke('revit-status', {
+        body: { workItemId: job.work_item_id },
       });
+      if (error) throw error;
 
-      if (error) {
-        console.error('Re-upload error:', error);
-        const errorMessage = error.message || 'Unknown error';
-        const isFileTooLarge = errorMessage.includes('too large') || errorMessage.includes('100MB');
-        
-        toast.error(
-          isFileTooLarge 
-            ? 'File is too large (>100MB) for edge function processing. Please use smaller files or contact support for alternative methods.'
-            : `Re-upload failed: ${errorMessage}`
-        );
-        return;
+      if (statusData.reportContent) {
+        console.error('\n📄 FULL Report Content (no truncation):');
+        console.error(statusData.reportContent);
       }
 
-      console.log('Re-upload response:', data);
-      
-      // Store OSS coordinates for later use in revit-modify
-      if (data.ossBucket && data.ossObject) {
-        setOssCoordinates({
-          bucket: data.ossBucket,
-          object: data.ossObject
-        });
-        toast.success(`File re-uploaded successfully! OSS coordinates stored. You can now save transformations.`);
+      const debugReport = generateDebugReport({
+        workItemId: job.work_item_id,
+        status: statusData.status || job.work_item_status || job.status,
+        statusData,
+        transformsSent,
+        error: job.error
+      });
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+      const filename = `debug-report-${timestamp}.txt`;
+
+      if (downloadDebugReport(debugReport, filename)) {
+        toast.success('Debug report downloaded: ' + filename);
       } else {
-        toast.success('File re-uploaded successfully! The SSA app now owns the file.');
+        toast.error('Debug report download failed - check console');
       }
-      
     } catch (error) {
-      console.error('Re-upload error:', error);
-      toast.error(error instanceof Error ? error.message : 'Failed to re-upload file');
+      console.error('Failed to fetch the WorkItem report:', error);
+    }
+  };
+
+  const handleCancelJob = async () => {
+    if (!activeJobId) return;
+
+    setIsCancellingJob(true);
+    try {
+      const token = await ensureValidToken();
+      const { data, error } = await supabase.functions.invoke('revit-cancel', {
+        body: { token, jobId: activeJobId },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      // The panel shows the cancelled job once its row update arrives
+    } catch (error) {
+      console.error('Failed to cancel save job:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel save');
+    } finally {
+      setIsCancellingJob(false);
+    }
+  };
+
+  // Publishes a job whose WorkItem succeeded but whose upload to ACC failed, without redoing the edits
+  const handleRetryJob = async () => {
+    if (!activeJobId) return;
+
+    setIsRetryingJob(true);
+    try {
+      const token = await ensureValidToken();
+      const { data, error } = await supabase.functions.invoke('revit-complete', {
+        body: { token, jobId: activeJobId },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      // The panel follows the job as it is published again
+    } catch (error) {
+      console.error('Failed to retry publishing save job:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to retry upload');
     } finally {
-      setIsReuploading(false);
+      setIsRetryingJob(false);
+    }
+  };
+
+  // The outcome handlers read the current model, so the effect below always calls this render's
+  const jobOutcomeHandlersRef = useRef({ completed: handleJobCompleted, failed: handleJobFailed });
+  jobOutcomeHandlersRef.current = { completed: handleJobCompleted, failed: handleJobFailed };
+
+  // Act on the followed job's outcome once; the progress panel keeps showing it until dismissed
+  useEffect(() => {
+    if (!activeJob) return;
+    // Running again (a retried upload): its new outcome is acted on too
+    if (!isJobFinished(activeJob)) {
+      handledJobIdRef.current = null;
+      return;
+    }
+    if (handledJobIdRef.current === activeJob.id) return;
+
+    handledJobIdRef.current = activeJob.id;
+    const transformsSent = jobTransformsRef.current;
+    jobTransformsRef.current = null;
+    if (activeJob.status === 'completed') {
+      jobOutcomeHandlersRef.current.completed(activeJob);
+    } else if (activeJob.status === 'failed') {
+      jobOutcomeHandlersRef.current.failed(activeJob, transformsSent);
+    } else {
+      // Cancelled: the pending changes (and their draft) are kept for another try
+      console.log('Save job cancelled:', activeJob.id);
     }
+  }, [activeJob]);
+
+  const clearChanges = () => {
+    revertElements(
+      [...new Set([...transformStateRef.current.keys(), ...pendingChanges.map((c) => c.dbId)])],
+      'Clear changes'
+    );
+    toast("Changes cleared (Ctrl+Z to restore)");
   };
 
   return (
@@ -1665,7 +2732,7 @@ const Viewer = () => {
       <aside
         className={`transition-all duration-300 ${
           showFileBrowser ? "w-80" : "w-0"
-        } overflow-hidden border-r border-border bg-card`}
+        } overflow-x-hidden overflow-y-auto border-r border-border bg-card`}
       >
         <div className="p-4 border-b border-border">
           <div className="flex items-center justify-between">
@@ -1702,72 +2769,47 @@ const Viewer = () => {
             </div>
           )}
 
-          {/* Re-upload with SSA button */}
-          {accessToken && (
-            <div className="space-y-2 pb-4 border-b border-border">
-              <label className="text-sm font-medium text-foreground">SSA Re-upload</label>
-              {ossCoordinates && (
-                <div className="text-xs text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-950 p-2 rounded">
-                  ✓ File uploaded to OSS storage
-                </div>
-              )}
-              <Button
-                onClick={handleReuploadWithSSA}
-                disabled={isReuploading}
-                size="sm"
-                variant="secondary"
-                className="w-full gap-2"
-              >
-                {isReuploading ? (
-                  <>
-                    <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
-                    Re-uploading...
-                  </>
-                ) : (
-                  <>
-                    <Upload className="h-4 w-4" />
-                    {ossCoordinates ? 'Re-upload Again' : 'Re-upload to OSS'}
-                  </>
-                )}
-              </Button>
-              <p className="text-xs text-muted-foreground">
-                {ossCoordinates 
-                  ? 'File ready for transformations. Re-upload if needed.'
-                  : 'Required before saving transformations to avoid memory limits.'
-                }
-              </p>
-            </div>
-          )}
-          
           {!accessToken ? (
             <Button onClick={handleLogin} className="w-full" size="sm">
               <LogIn className="h-4 w-4 mr-2" />
               Sign in with Autodesk
             </Button>
-          ) : loading ? (
-            <p className="text-sm text-muted-foreground">Loading projects...</p>
-          ) : projects.length > 0 ? (
-            projects.map((project) => {
-              const isTarget = project.id.replace('b.', '') === ALLOWED_PROJECT_ID;
-              return (
-                <div
-                  key={project.id}
-                  onClick={() => loadModel(project.id)}
-                  className={`p-3 rounded-lg cursor-pointer transition-colors ${
-                    isTarget 
-                      ? 'bg-primary/10 hover:bg-primary/20 border border-primary/30' 
-                      : 'bg-secondary hover:bg-secondary/80'
-                  }`}
-                >
-                  <p className="text-sm font-medium text-foreground">
-                    {project.attributes.name}
-                    {isTarget && <span className="ml-2 text-xs text-primary">(Target)</span>}
-                  </p>
-                </div>
-              );
-            })
           ) : (
-            <p className="text-sm text-muted-foreground">No projects found</p>
+            <>
+              {hubs && hubs.length > 1 && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-foreground">Hub</label>
+                  <Select value={selectedHubId ?? undefined} onValueChange={handleHubChange}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue placeholder="Select a hub" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {hubs.map((hub) => (
+                        <SelectItem key={hub.id} value={hub.id}>
+                          {hub.name}{hub.region ? ` (${hub.region})` : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {loading || (accountProjects && !allowedProjects) ? (
+                <p className="text-sm text-muted-foreground">Loading projects...</p>
+              ) : projects.length > 0 ? (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-foreground">Browse Files</label>
+                  <AccFileBrowser
+                    hub={selectedHub}
+                    projects={projects}
+                    selectedVersionUrn={currentVersionUrn}
+                    getToken={ensureValidToken}
+                    onSelectVersion={openModelVersion}
+                  />
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No projects found</p>
+              )}
+            </>
           )}
         </div>
       </aside>
@@ -1788,6 +2830,22 @@ const Viewer = () => {
             <h1 className="text-lg font-semibold text-foreground ml-2">
               Model Viewer
             </h1>
+            {currentItemId && versions && versions.length > 0 && (
+              <Select value={currentVersionUrn ?? undefined} onValueChange={handleVersionChange}>
+                <SelectTrigger className="h-9 w-56 ml-2" title="Version history">
+                  <SelectValue placeholder="Select version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>
+                      V{version.versionNumber}
+                      {version.id === tipVersion?.id ? ' (latest)' : ''}
+                      {version.lastModifiedTime ? ` - ${new Date(version.lastModifiedTime).toLocaleDateString()}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
           </div>
           <div className="flex items-center gap-2">
             <Button
@@ -1799,15 +2857,53 @@ const Viewer = () => {
             >
               <Edit3 className="h-5 w-5" />
             </Button>
+            {editMode && (
+              <Button
+                variant={floorDragMode ? "default" : "ghost"}
+                size="icon"
+                onClick={toggleFloorDragMode}
+                className="hover:bg-secondary"
+                title={floorDragMode ? "Disable Drag on Floor" : "Enable Drag on Floor"}
+              >
+                <Move className="h-5 w-5" />
+              </Button>
+            )}
+            {editMode && (
+              <SnapSettingsPopover settings={snapSettings} onChange={setSnapSettings} />
+            )}
+            {editMode && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={undoEdit}
+                  disabled={historyCounts.undo === 0 || isJobRunning}
+                  className="hover:bg-secondary"
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Undo2 className="h-5 w-5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={redoEdit}
+                  disabled={historyCounts.redo === 0 || isJobRunning}
+                  className="hover:bg-secondary"
+                  title="Redo (Ctrl+Y)"
+                >
+                  <Redo2 className="h-5 w-5" />
+                </Button>
+              </>
+            )}
             {pendingChanges.length > 0 && (
               <Button
                 variant="default"
                 size="sm"
                 onClick={handleSaveChanges}
-                disabled={isSaving}
+                disabled={isSaving || isJobRunning}
                 className="gap-1"
               >
-                {isSaving ? (
+                {isSaving || isJobRunning ? (
                   <>
                     <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary-foreground border-t-transparent" />
                     Saving...
@@ -1876,36 +2972,85 @@ const Viewer = () => {
             <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-card/95 border border-border rounded-lg px-4 py-2 shadow-lg">
               <p className="text-sm text-foreground font-medium">
                 Click element → Drag colored arrows (X/Y/Z) or use keyboard: 
-                <span className="ml-2 text-muted-foreground">Arrows=XY • PgUp/PgDn=Z • Shift=Faster</span>
+                <span className="ml-2 text-muted-foreground">Arrows=XY • PgUp/PgDn=Z • Shift=Faster • Ctrl+Z/Ctrl+Y=Undo/Redo</span>
               </p>
             </div>
           )}
         </div>
 
+        {editMode && transformSelection && viewer?.model && (
+          <TransformPanel
+            selection={transformSelection}
+            coordinateSystem={getCoordinateSystem(viewer.model)}
+            lengthUnit={lengthUnit}
+            onMoveTo={(center) => transformExtensionRef.current?.moveSelectionTo(center)}
+            onMoveBy={(offset) => transformExtensionRef.current?.moveSelectionBy(offset)}
+          />
+        )}
+
+        {activeJob && (
+          <JobProgressPanel
+            job={activeJob}
+            isCancelling={isCancellingJob}
+            isRetrying={isRetryingJob}
+            onCancel={handleCancelJob}
+            onRetry={handleRetryJob}
+            onDismiss={() => setActiveJobId(null)}
+          />
+        )}
+
         {/* Pending Changes Panel */}
         {pendingChanges.length > 0 && (
           <div className="absolute bottom-4 left-4 bg-card border border-border rounded-lg p-4 max-w-sm shadow-lg">
             <div className="flex items-center justify-between mb-2">
               <h3 className="font-semibold text-foreground">Pending Changes ({pendingChanges.length})</h3>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={clearChanges}
-                className="h-6 w-6"
-              >
-                <X className="h-4 w-4" />
-              </Button>
+              <div className="flex items-center gap-1">
+                <Select value={lengthUnit} onValueChange={(value) => setLengthUnit(value as LengthUnit)}>
+                  <SelectTrigger className="h-6 w-20 text-xs" title="Display units">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LENGTH_UNITS.map((unit) => (
+                      <SelectItem key={unit.id} value={unit.id}>{unit.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={clearChanges}
+                  className="h-6 w-6"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
             </div>
             <div className="space-y-2 max-h-48 overflow-y-auto">
-              {pendingChanges.map((change, idx) => (
-                <div key={idx} className="text-sm text-muted-foreground border-b border-border pb-2">
-                  <div className="font-medium text-foreground">{change.elementName}</div>
+              {pendingChanges.map((change) => (
+                <div key={change.dbId} className="text-sm text-muted-foreground border-b border-border pb-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="font-medium text-foreground">{change.elementName}</div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => revertChange(change)}
+                      className="h-6 w-6 shrink-0"
+                      title="Revert this element"
+                    >
+                      <Undo2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
                   <div className="text-xs">
-                    From: ({change.originalPosition.x.toFixed(2)}, {change.originalPosition.y.toFixed(2)}, {change.originalPosition.z.toFixed(2)})
+                    From: {formatRevitPoint(change.originalPosition)}
                   </div>
                   <div className="text-xs">
-                    To: ({change.newPosition.x.toFixed(2)}, {change.newPosition.y.toFixed(2)}, {change.newPosition.z.toFixed(2)})
+                    To: {formatRevitPoint(change.newPosition)}
                   </div>
+                  {change.rotation && (
+                    <div className="text-xs">
+                      Rotate: {formatRotation(change.rotation)}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -1924,9 +3069,69 @@ const Viewer = () => {
               This process may take several minutes to complete.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {isFetchingVersions ? (
+            <p className="text-sm text-muted-foreground">Checking for newer versions...</p>
+          ) : isStaleVersion && (
+            <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+              You are editing V{loadedVersion?.versionNumber ?? '?'}, but V{tipVersion?.versionNumber} is now the latest version
+              {tipVersion?.lastModifiedUserName ? ` (by ${tipVersion.lastModifiedUserName})` : ''}.
+              Saving will be based on the older version and will not include the newer changes.
+            </div>
+          )}
+          {isCheckingViolations ? (
+            <p className="text-sm text-muted-foreground">Checking for clashes and clearances...</p>
+          ) : violations.length > 0 && (
+            <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+              <p className="font-medium">
+                {violations.length} problem{violations.length !== 1 ? 's' : ''} found (highlighted in the model):
+              </p>
+              <ul className="mt-1 max-h-32 list-disc space-y-0.5 overflow-y-auto pl-4 text-xs">
+                {violations.map((violation) => (
+                  <li key={`${violation.kind}-${violation.dbId}-${violation.otherDbId}`}>
+                    {violation.kind === 'clash'
+                      ? `${violation.elementName} overlaps ${violation.otherName}`
+                      : `${violation.elementName} is ${formatLength(violation.gapFeet ?? 0, lengthUnit)} from ${violation.otherName}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <ClearanceRulesEditor settings={clearanceSettings} onChange={handleClearanceSettingsChange} />
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="save-as-new-version"
+              checked={saveAsNewVersion}
+              onCheckedChange={(checked) => setSaveAsNewVersion(checked === true)}
+            />
+            <div className="grid gap-1">
+              <Label htmlFor="save-as-new-version">Save as a new version of {currentFileName || 'this file'}</Label>
+              <p className="text-xs text-muted-foreground">
+                {saveAsNewVersion
+                  ? 'Keeps the file lineage and links intact.'
+                  : 'Creates a separate "_modified_" copy next to the original.'}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="read-from-acc"
+              checked={readFromAcc}
+              onCheckedChange={(checked) => setReadFromAcc(checked === true)}
+            />
+            <div className="grid gap-1">
+              <Label htmlFor="read-from-acc">Read the file straight from ACC</Label>
+              <p className="text-xs text-muted-foreground">
+                {readFromAcc
+                  ? 'Skips the OSS copy; the save fails if it waits in the queue for over an hour.'
+                  : 'Copies the file to OSS on its first save; later saves of this version reuse the copy.'}
+              </p>
+            </div>
+          </div>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={confirmSave}>Save Changes</AlertDialogAction>
+            <AlertDialogAction onClick={confirmSave}>
+              {violations.length > 0 ? 'Save Anyway' : 'Save Changes'}
+            </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
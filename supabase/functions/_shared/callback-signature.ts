@@ -0,0 +1,48 @@
+// Design Automation calls onComplete URLs without credentials, so each URL carries an HMAC of the
+// job it belongs to; only URLs revit-modify handed out verify.
+
+const encoder = new TextEncoder();
+
+const getKey = async () => {
+  const secret = Deno.env.get('DA_CALLBACK_SECRET');
+  if (!secret) {
+    throw new Error('DA_CALLBACK_SECRET not configured');
+  }
+
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+};
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes)).map((b) => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Uint8Array | null => {
+  if (!/^([0-9a-f]{2})+$/i.test(hex)) return null;
+  return new Uint8Array(hex.match(/../g)!.map((byte) => parseInt(byte, 16)));
+};
+
+export const isCallbackSigningConfigured = () => !!Deno.env.get('DA_CALLBACK_SECRET');
+
+export async function signCallbackNonce(nonce: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), encoder.encode(nonce));
+  return toHex(signature);
+}
+
+// crypto.subtle.verify compares in constant time
+export async function verifyCallbackNonce(nonce: string, signature: string): Promise<boolean> {
+  const signatureBytes = fromHex(signature);
+  if (!signatureBytes) return false;
+  return crypto.subtle.verify('HMAC', await getKey(), signatureBytes, encoder.encode(nonce));
+}
+
+/**
+ * The onComplete URL for a job: the job ID is the nonce, signed with DA_CALLBACK_SECRET.
+ */
+export async function buildCallbackUrl(jobId: string): Promise<string> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  if (!supabaseUrl) {
+    throw new Error('SUPABASE_URL not configured');
+  }
+
+  const params = new URLSearchParams({ jobId, signature: await signCallbackNonce(jobId) });
+  return `${supabaseUrl}/functions/v1/revit-workitem-callback?${params}`;
+}
@@ -0,0 +1,171 @@
+import { getServiceClient, normalizeProjectId } from "./project-access.ts";
+
+// Server-side copy of the movability rules the viewer applies (src/lib/edit-permissions.ts), so a
+// request can't move what the viewer refuses to select. Properties come from the Model Derivative API.
+
+export interface EditRule {
+  project_id: string | null;
+  effect: string;
+  property_name: string;
+  operator: string;
+  value: string | null;
+  reason: string | null;
+  priority: number;
+}
+
+export interface ElementLock {
+  dbId: number;
+  name: string;
+  reason: string;
+}
+
+// An element as the client sent it: viewer dbId plus the Revit UniqueId the plugin will move
+export interface TransformedElement {
+  dbId: number;
+  uniqueId: string;
+}
+
+type ElementProperties = Map<string, string>;
+
+interface PropertyObject {
+  objectid: number;
+  externalId?: string;
+  name?: string;
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * Loads the global rules plus the project's own.
+ */
+export async function loadEditRules(projectId: string): Promise<EditRule[]> {
+  const supabase = getServiceClient();
+  const columns = 'project_id, effect, property_name, operator, value, reason, priority';
+
+  const [globalRules, projectRules] = await Promise.all([
+    supabase.from('edit_rules').select(columns).is('project_id', null),
+    supabase.from('edit_rules').select(columns).eq('project_id', normalizeProjectId(projectId)),
+  ]);
+
+  const error = globalRules.error || projectRules.error;
+  if (error) {
+    throw new Error(`Failed to load edit rules: ${error.message}`);
+  }
+
+  return [...(globalRules.data || []), ...(projectRules.data || [])];
+}
+
+const ruleMatches = (rule: EditRule, properties: ElementProperties) => {
+  const actual = properties.get(rule.property_name);
+  if (actual === undefined) return false;
+
+  switch (rule.operator) {
+    case 'exists':
+      return true;
+    case 'contains':
+      return actual.toLowerCase().includes((rule.value ?? '').toLowerCase());
+    default:
+      return actual.toLowerCase() === (rule.value ?? '').toLowerCase();
+  }
+};
+
+// Highest priority first; project rules win over global ones of the same priority
+const findDecidingRule = (rules: EditRule[], properties: ElementProperties) =>
+  [...rules]
+    .sort((a, b) => b.priority - a.priority || Number(!!b.project_id) - Number(!!a.project_id))
+    .find((rule) => ruleMatches(rule, properties)) ?? null;
+
+const describeRule = (rule: EditRule) =>
+  rule.reason || (rule.operator === 'exists'
+    ? `Elements with "${rule.property_name}" are locked`
+    : `${rule.property_name} "${rule.value}" is locked`);
+
+const toModelUrn = (versionUrn: string) =>
+  btoa(versionUrn).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * Reads the properties of the given objects of a version's 3D view. Property groups are flattened
+ * the way the viewer's properties panel lists them (display name -> value).
+ */
+async function getObjectProperties(token: string, versionUrn: string, dbIds: number[]): Promise<PropertyObject[]> {
+  const baseUrl = `https://developer.api.autodesk.com/modelderivative/v2/designdata/${toModelUrn(versionUrn)}/metadata`;
+  const headers = { 'Authorization': `Bearer ${token}` };
+
+  const metadataResponse = await fetch(baseUrl, { headers });
+  if (!metadataResponse.ok) {
+    const errorText = await metadataResponse.text();
+    throw new Error(`Failed to fetch model views (${metadataResponse.status}): ${errorText}`);
+  }
+  const metadata = await metadataResponse.json();
+  const view = (metadata.data?.metadata || []).find((entry: { role?: string }) => entry.role === '3d');
+  if (!view?.guid) {
+    throw new Error('Model has no 3D view to read element properties from');
+  }
+
+  const queryResponse = await fetch(`${baseUrl}/${view.guid}/properties:query`, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      query: { $in: ['objectid', ...dbIds] },
+      fields: ['objectid', 'externalId', 'name', 'properties'],
+      pagination: { offset: 0, limit: dbIds.length },
+    }),
+  });
+  // 202 means the property database is still being extracted
+  if (queryResponse.status !== 200) {
+    const errorText = await queryResponse.text();
+    throw new Error(`Failed to query element properties (${queryResponse.status}): ${errorText}`);
+  }
+  const result = await queryResponse.json();
+  return result.data?.collection || [];
+}
+
+const flattenProperties = (object: PropertyObject): ElementProperties => {
+  const properties: ElementProperties = new Map();
+  const add = (name: string, value: unknown) => {
+    if (value === '' || value == null || properties.has(name)) return;
+    // Revit categories may come through as "Revit Walls", "Revit Furniture", ...
+    properties.set(name, name === 'Category' ? String(value).replace(/^Revit /, '') : String(value));
+  };
+
+  Object.entries(object.properties || {}).forEach(([key, value]) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.entries(value as Record<string, unknown>).forEach(([name, groupValue]) => add(name, groupValue));
+    } else {
+      add(key, value);
+    }
+  });
+  return properties;
+};
+
+/**
+ * Checks the transformed elements against the project's rules and returns the locked ones. An element
+ * whose dbId doesn't belong to its UniqueId (or isn't in the model) is reported as locked too, since the
+ * plugin moves elements by UniqueId. Only the element's own properties are checked, not its ancestors'.
+ */
+export async function findLockedElements(
+  token: string,
+  versionUrn: string,
+  elements: TransformedElement[],
+  rules: EditRule[]
+): Promise<ElementLock[]> {
+  if (rules.length === 0 || elements.length === 0) return [];
+
+  const objects = await getObjectProperties(token, versionUrn, elements.map((element) => element.dbId));
+  const objectsById = new Map(objects.map((object) => [object.objectid, object]));
+  const locks: ElementLock[] = [];
+
+  for (const element of elements) {
+    const object = objectsById.get(element.dbId);
+    if (!object || object.externalId !== element.uniqueId) {
+      locks.push({ dbId: element.dbId, name: element.uniqueId, reason: 'element does not match the model' });
+      continue;
+    }
+
+    const rule = findDecidingRule(rules, flattenProperties(object));
+    if (rule?.effect === 'lock') {
+      locks.push({ dbId: element.dbId, name: object.name || `Element ${element.dbId}`, reason: describeRule(rule) });
+    }
+  }
+
+  return locks;
+}
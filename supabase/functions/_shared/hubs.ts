@@ -0,0 +1,66 @@
+// Hub resource from the Data Management API, reduced to the fields listed here
+interface HubResource {
+  id: string;
+  attributes?: {
+    name?: string;
+    region?: string;
+    extension?: { type?: string };
+  };
+}
+
+export interface HubSummary {
+  id: string;
+  name: string;
+  region: string | null;
+  extensionType: string | null;
+}
+
+/**
+ * Lists every BIM 360/ACC hub the user's token can see.
+ */
+export async function listHubs(token: string): Promise<HubSummary[]> {
+  const hubsResponse = await fetch('https://developer.api.autodesk.com/project/v1/hubs', {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+
+  if (!hubsResponse.ok) {
+    const errorText = await hubsResponse.text();
+    throw new Error(`Failed to fetch hubs (${hubsResponse.status}): ${errorText}`);
+  }
+
+  const hubsData = await hubsResponse.json();
+
+  return (hubsData.data || []).map((hub: HubResource): HubSummary => ({
+    id: hub.id,
+    name: hub.attributes?.name || hub.id,
+    region: hub.attributes?.region || null,
+    extensionType: hub.attributes?.extension?.type || null,
+  }));
+}
+
+/**
+ * Finds the hub a project actually belongs to by asking each hub for the project.
+ * Used when a caller only knows the project ID (e.g. a pasted ACC URL).
+ */
+export async function resolveProjectHubId(token: string, projectId: string): Promise<string | null> {
+  const formattedProjectId = projectId.startsWith('b.') ? projectId : `b.${projectId}`;
+  const hubs = await listHubs(token);
+
+  for (const hub of hubs) {
+    const projectResponse = await fetch(
+      `https://developer.api.autodesk.com/project/v1/hubs/${hub.id}/projects/${formattedProjectId}`,
+      { headers: { 'Authorization': `Bearer ${token}` } }
+    );
+
+    if (projectResponse.ok) {
+      console.log(`[HUBS] Project ${formattedProjectId} belongs to hub ${hub.id} (${hub.name})`);
+      return hub.id;
+    }
+
+    // Drain the body so the connection can be reused
+    await projectResponse.body?.cancel();
+  }
+
+  console.warn(`[HUBS] Project ${formattedProjectId} not found in any of ${hubs.length} hubs`);
+  return null;
+}
@@ -0,0 +1,249 @@
+import { getServiceClient } from "./project-access.ts";
+import { copyOssObject } from "./oss-transfer.ts";
+import { getDesignAutomationToken } from "./revit-jobs.ts";
+
+// Copies of ACC files that Design Automation reads; owned by the regular app, kept across saves
+export const STAGING_BUCKET_KEY = 'revit-transform-temp';
+
+// A copy no save has used for this long is deleted (evictStagedCopies, run by revit-job-poller)
+const STAGED_COPY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+// Copies evicted per run; the rest wait for the next run
+const MAX_EVICTIONS_PER_RUN = 10;
+
+export interface StagedCopy {
+  bucketKey: string;
+  objectKey: string;
+  size: number;
+  // true when an earlier save's copy of the same version was used
+  reused: boolean;
+}
+
+// urn:adsk.objects:os.object:BUCKET_KEY/OBJECT_KEY
+const parseStorageUrn = (storageUrn: string) => {
+  const bucketAndObject = storageUrn.split(':').pop() || '';
+  const [bucketKey, ...objectKeyParts] = bucketAndObject.split('/');
+  return { bucketKey, objectKey: objectKeyParts.join('/') };
+};
+
+async function objectExists(bucketKey: string, objectKey: string, appToken: string): Promise<boolean> {
+  const response = await fetch(
+    `https://developer.api.autodesk.com/oss/v2/buckets/${bucketKey}/objects/${encodeURIComponent(objectKey)}/details`,
+    { headers: { 'Authorization': `Bearer ${appToken}` } }
+  );
+  if (response.status === 404) return false;
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to check staged copy (${response.status}): ${errorText}`);
+  }
+  return true;
+}
+
+async function deleteStagedObject(bucketKey: string, objectKey: string, appToken: string): Promise<void> {
+  const response = await fetch(
+    `https://developer.api.autodesk.com/oss/v2/buckets/${bucketKey}/objects/${encodeURIComponent(objectKey)}`,
+    { method: 'DELETE', headers: { 'Authorization': `Bearer ${appToken}` } }
+  );
+  // 404 = already gone
+  if (!response.ok && response.status !== 404) {
+    const errorText = await response.text();
+    throw new Error(`Failed to delete staged copy ${objectKey} (${response.status}): ${errorText}`);
+  }
+}
+
+async function ensureStagingBucket(appToken: string): Promise<void> {
+  const response = await fetch('https://developer.api.autodesk.com/oss/v2/buckets', {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${appToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ bucketKey: STAGING_BUCKET_KEY, policyKey: 'persistent' }),
+  });
+
+  // 409 = bucket already exists (which is fine)
+  if (!response.ok && response.status !== 409) {
+    const errorText = await response.text();
+    throw new Error(`Failed to create bucket (${response.status}): ${errorText}`);
+  }
+}
+
+/**
+ * Makes sure an ACC file version has a copy in the staging bucket and returns it. Copies are cached per
+ * version URN (staged_copies), so saving the same version again doesn't transfer it again; a cached copy
+ * whose object has gone is staged anew. When two saves stage the same version at once, the copy cached
+ * first is used by both.
+ * @param userToken - User's 3-legged token; reading the version with it also checks the user can see it
+ * @param appToken - Regular app token (bucket:create data:read data:write)
+ */
+export async function stageVersion(
+  userToken: string,
+  appToken: string,
+  projectId: string,
+  versionId: string
+): Promise<StagedCopy> {
+  const versionResponse = await fetch(
+    `https://developer.api.autodesk.com/data/v1/projects/b.${projectId}/versions/${encodeURIComponent(versionId)}`,
+    { headers: { 'Authorization': `Bearer ${userToken}` } }
+  );
+  if (!versionResponse.ok) {
+    const errorText = await versionResponse.text();
+    throw new Error(`Failed to get version (${versionResponse.status}): ${errorText}`);
+  }
+
+  const versionData = await versionResponse.json();
+  const storageUrn = versionData.data?.relationships?.storage?.data?.id;
+  if (!storageUrn) {
+    throw new Error(`Version ${versionId} has no storage object`);
+  }
+
+  const supabase = getServiceClient();
+
+  const { data: cached, error: cacheError } = await supabase
+    .from('staged_copies')
+    .select('bucket_key, object_key, size')
+    .eq('version_urn', versionId)
+    .maybeSingle();
+  if (cacheError) throw new Error(`Failed to load staged copy: ${cacheError.message}`);
+
+  if (cached) {
+    // Marked as used before it is checked, so it isn't evicted while this save reads it; no row back
+    // means it is being evicted right now
+    const { data: touched } = await supabase
+      .from('staged_copies')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('version_urn', versionId)
+      .eq('object_key', cached.object_key)
+      .select('version_urn');
+
+    if (touched?.length && await objectExists(cached.bucket_key, cached.object_key, appToken)) {
+      console.log('[OSS-STAGING] Reusing staged copy of', versionId, '→', cached.object_key);
+      return { bucketKey: cached.bucket_key, objectKey: cached.object_key, size: cached.size, reused: true };
+    }
+    console.warn('[OSS-STAGING] Staged copy of', versionId, 'is gone, staging again');
+  }
+
+  await ensureStagingBucket(appToken);
+
+  const source = parseStorageUrn(storageUrn);
+  const objectKey = `${crypto.randomUUID()}.rvt`;
+  console.log('[OSS-STAGING] Staging', `${source.bucketKey}/${source.objectKey}`, '→', `${STAGING_BUCKET_KEY}/${objectKey}`);
+
+  const size = await copyOssObject(
+    { ...source, token: userToken },
+    { bucketKey: STAGING_BUCKET_KEY, objectKey, token: appToken }
+  );
+  console.log('[OSS-STAGING] ✓ Staged', size, 'bytes');
+
+  const now = new Date().toISOString();
+  const row = {
+    version_urn: versionId,
+    project_id: projectId,
+    bucket_key: STAGING_BUCKET_KEY,
+    object_key: objectKey,
+    size,
+    created_at: now,
+    last_used_at: now,
+  };
+
+  // The gone copy's row is replaced only if no other save has replaced it already; with no row (or an
+  // evicted one) the copy is added unless a concurrent save added its own first
+  let cachedCopy = false;
+  if (cached) {
+    const { data: replaced, error: replaceError } = await supabase
+      .from('staged_copies')
+      .update(row)
+      .eq('version_urn', versionId)
+      .eq('object_key', cached.object_key)
+      .select('version_urn');
+    // The copy is usable either way; the next save just stages it again
+    if (replaceError) {
+      console.warn('[OSS-STAGING] Failed to cache staged copy:', replaceError.message);
+      return { bucketKey: STAGING_BUCKET_KEY, objectKey, size, reused: false };
+    }
+    cachedCopy = !!replaced?.length;
+  }
+  if (!cachedCopy) {
+    const { data: inserted, error: insertError } = await supabase
+      .from('staged_copies')
+      .upsert(row, { onConflict: 'version_urn', ignoreDuplicates: true })
+      .select('version_urn');
+    if (insertError) {
+      console.warn('[OSS-STAGING] Failed to cache staged copy:', insertError.message);
+      return { bucketKey: STAGING_BUCKET_KEY, objectKey, size, reused: false };
+    }
+    cachedCopy = !!inserted?.length;
+  }
+  if (cachedCopy) {
+    return { bucketKey: STAGING_BUCKET_KEY, objectKey, size, reused: false };
+  }
+
+  // Another save staged the same version meanwhile: use its copy and drop this one, which nothing refers to
+  const { data: winner, error: winnerError } = await supabase
+    .from('staged_copies')
+    .select('bucket_key, object_key, size')
+    .eq('version_urn', versionId)
+    .maybeSingle();
+  if (winnerError || !winner) {
+    console.warn('[OSS-STAGING] Failed to load concurrently staged copy:', winnerError?.message ?? 'no row');
+    return { bucketKey: STAGING_BUCKET_KEY, objectKey, size, reused: false };
+  }
+
+  await deleteStagedObject(STAGING_BUCKET_KEY, objectKey, appToken).catch((e) =>
+    console.warn('[OSS-STAGING] Could not delete duplicate staged copy:', e instanceof Error ? e.message : String(e))
+  );
+  console.log('[OSS-STAGING] Using concurrently staged copy of', versionId, '→', winner.object_key);
+  return { bucketKey: winner.bucket_key, objectKey: winner.object_key, size: winner.size, reused: true };
+}
+
+/**
+ * Deletes the staged copies no save has used for STAGED_COPY_RETENTION_MS. Each row is removed first,
+ * and only while it is still unused, so a save reusing the copy at the same time keeps it; a copy whose
+ * object can't be deleted gets its row back, so the next run tries again.
+ * Returns the number of copies deleted.
+ */
+export async function evictStagedCopies(): Promise<number> {
+  const supabase = getServiceClient();
+  const cutoff = new Date(Date.now() - STAGED_COPY_RETENTION_MS).toISOString();
+
+  const { data: unused, error } = await supabase
+    .from('staged_copies')
+    .select('*')
+    .lt('last_used_at', cutoff)
+    .order('last_used_at', { ascending: true })
+    .limit(MAX_EVICTIONS_PER_RUN);
+  if (error) throw new Error(`Failed to load unused staged copies: ${error.message}`);
+  if (!unused?.length) return 0;
+
+  const appToken = await getDesignAutomationToken('bucket:read data:read data:write');
+  let evicted = 0;
+
+  for (const copy of unused) {
+    const { data: removed, error: removeError } = await supabase
+      .from('staged_copies')
+      .delete()
+      .eq('version_urn', copy.version_urn)
+      .lt('last_used_at', cutoff)
+      .select('version_urn');
+    if (removeError) {
+      console.error(`[OSS-STAGING] Failed to remove staged copy of ${copy.version_urn}:`, removeError.message);
+      continue;
+    }
+    if (!removed?.length) continue;
+
+    try {
+      await deleteStagedObject(copy.bucket_key, copy.object_key, appToken);
+    } catch (e) {
+      console.error('[OSS-STAGING] Could not evict', copy.object_key, e instanceof Error ? e.message : String(e));
+      // Tracked again so the next run retries, unless a save has staged the version anew meanwhile
+      const { error: restoreError } = await supabase
+        .from('staged_copies')
+        .upsert(copy, { onConflict: 'version_urn', ignoreDuplicates: true });
+      if (restoreError) {
+        console.error(`[OSS-STAGING] Staged copy ${copy.object_key} is no longer tracked:`, restoreError.message);
+      }
+      continue;
+    }
+
+    console.log('[OSS-STAGING] Evicted unused staged copy of', copy.version_urn, '→', copy.object_key);
+    evicted++;
+  }
+
+  return evicted;
+}
@@ -0,0 +1,167 @@
+// OSS objects are moved through S3 multipart uploads, one part in memory at a time, so the size of a
+// model is no longer limited by the edge function's memory.
+
+// S3 needs at least 5 MB per part (except the last); larger parts mean fewer round trips
+const PART_SIZE = 16 * 1024 * 1024;
+// OSS hands out at most 25 signed part URLs per request
+const URLS_PER_REQUEST = 25;
+const MAX_PART_ATTEMPTS = 3;
+
+const OSS_BASE_URL = 'https://developer.api.autodesk.com/oss/v2/buckets';
+
+const objectUrl = (bucketKey: string, objectKey: string) =>
+  `${OSS_BASE_URL}/${bucketKey}/objects/${encodeURIComponent(objectKey)}`;
+
+async function fetchJson(url: string, init: RequestInit, failure: string) {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${failure} (${response.status}): ${errorText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Opens an OSS object for reading through a signed S3 URL; the body is streamed, not buffered.
+ * Returns null when the object doesn't exist (e.g. expired from a transient bucket).
+ */
+export async function openOssObject(bucketKey: string, objectKey: string, token: string): Promise<Response | null> {
+  const signedUrlResponse = await fetch(
+    `${objectUrl(bucketKey, objectKey)}/signeds3download?minutesExpiration=60`,
+    { method: 'GET', headers: { 'Authorization': `Bearer ${token}` } }
+  );
+
+  if (signedUrlResponse.status === 404) return null;
+  if (!signedUrlResponse.ok) {
+    const errorText = await signedUrlResponse.text();
+    throw new Error(`Failed to get signed download URL for ${bucketKey}/${objectKey} (${signedUrlResponse.status}): ${errorText}`);
+  }
+
+  const signedUrlData = await signedUrlResponse.json();
+
+  if (!signedUrlData.url) {
+    throw new Error(`No download URL in signed URL response: ${JSON.stringify(signedUrlData)}`);
+  }
+
+  const response = await fetch(signedUrlData.url); // No auth header needed for signed S3 URL
+  if (!response.ok || !response.body) {
+    const errorText = await response.text();
+    throw new Error(`Failed to download ${bucketKey}/${objectKey} (${response.status}): ${errorText}`);
+  }
+
+  return response;
+}
+
+async function uploadPart(url: string, part: Uint8Array, partNumber: number) {
+  for (let attempt = 1; ; attempt++) {
+    const response = await fetch(url, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: part,
+    });
+    if (response.ok) return;
+
+    const errorText = await response.text();
+    if (attempt >= MAX_PART_ATTEMPTS) {
+      throw new Error(`Failed to upload part ${partNumber} to S3 (${response.status}): ${errorText}`);
+    }
+    console.warn(`[OSS-TRANSFER] Part ${partNumber} upload failed (${response.status}), retrying...`);
+  }
+}
+
+/**
+ * Writes a stream to an OSS object as a multipart upload. Signed part URLs are requested in batches
+ * as the stream is read, so the total size doesn't have to be known up front.
+ * Returns the number of bytes written.
+ */
+export async function uploadStreamToOss(
+  source: ReadableStream<Uint8Array>,
+  bucketKey: string,
+  objectKey: string,
+  token: string
+): Promise<number> {
+  const authHeaders = { 'Authorization': `Bearer ${token}` };
+
+  let uploadKey: string | undefined;
+  let urls: string[] = [];
+  let firstUrlPart = 1;
+
+  const getPartUrl = async (partNumber: number) => {
+    if (partNumber >= firstUrlPart + urls.length) {
+      const params = new URLSearchParams({
+        firstPart: String(partNumber),
+        parts: String(URLS_PER_REQUEST),
+        minutesExpiration: '60',
+        ...(uploadKey ? { uploadKey } : {}),
+      });
+      const signedUploadData = await fetchJson(
+        `${objectUrl(bucketKey, objectKey)}/signeds3upload?${params}`,
+        { method: 'GET', headers: authHeaders },
+        'Failed to request signed upload URLs'
+      );
+      uploadKey = signedUploadData.uploadKey;
+      urls = signedUploadData.urls || [];
+      firstUrlPart = partNumber;
+    }
+    return urls[partNumber - firstUrlPart];
+  };
+
+  let partNumber = 1;
+  let totalBytes = 0;
+  let chunks: Uint8Array[] = [];
+  let bufferedBytes = 0;
+
+  const flushPart = async () => {
+    const part = new Uint8Array(bufferedBytes);
+    let offset = 0;
+    for (const chunk of chunks) {
+      part.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    chunks = [];
+    bufferedBytes = 0;
+
+    await uploadPart(await getPartUrl(partNumber), part, partNumber);
+    console.log(`[OSS-TRANSFER] Part ${partNumber} uploaded (${part.byteLength} bytes, ${totalBytes} total)`);
+    partNumber++;
+  };
+
+  const reader = source.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    chunks.push(value);
+    bufferedBytes += value.byteLength;
+    totalBytes += value.byteLength;
+    if (bufferedBytes >= PART_SIZE) await flushPart();
+  }
+  // The last part may be short; an empty object still needs one part
+  if (bufferedBytes > 0 || partNumber === 1) await flushPart();
+
+  await fetchJson(
+    `${objectUrl(bucketKey, objectKey)}/signeds3upload`,
+    {
+      method: 'POST',
+      headers: { ...authHeaders, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ uploadKey }),
+    },
+    'Failed to complete upload'
+  );
+
+  return totalBytes;
+}
+
+/**
+ * Streams one OSS object into another; source and target may belong to different apps.
+ */
+export async function copyOssObject(
+  source: { bucketKey: string; objectKey: string; token: string },
+  target: { bucketKey: string; objectKey: string; token: string }
+): Promise<number> {
+  const response = await openOssObject(source.bucketKey, source.objectKey, source.token);
+  if (!response) {
+    throw new Error(`Object ${source.bucketKey}/${source.objectKey} not found`);
+  }
+  return uploadStreamToOss(response.body!, target.bucketKey, target.objectKey, target.token);
+}
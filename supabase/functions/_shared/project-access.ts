@@ -0,0 +1,115 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.58.0";
+import { resolveProjectHubId } from "./hubs.ts";
+
+export interface AllowedProject {
+  project_id: string;
+  hub_id: string | null;
+  autodesk_user_id: string | null;
+  name: string | null;
+}
+
+export interface ProjectAccessResult {
+  allowed: boolean;
+  autodeskUserId: string | null;
+}
+
+// ACC project IDs come with or without the BIM 360 "b." prefix; the allowlist stores them without
+export const normalizeProjectId = (projectId: string): string => projectId.replace(/^b\./, '');
+
+export const getServiceClient = () => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not configured');
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey);
+};
+
+/**
+ * Resolves the Autodesk user ID (OIDC "sub") for a 3-legged token.
+ * Returns null when the token lacks the user-profile:read scope (sessions started before it was requested).
+ */
+export async function getAutodeskUserId(userToken: string): Promise<string | null> {
+  const cleanToken = userToken.replace(/^Bearer\s+/i, '');
+
+  try {
+    const response = await fetch('https://api.userprofile.autodesk.com/userinfo', {
+      headers: { 'Authorization': `Bearer ${cleanToken}` },
+    });
+
+    if (!response.ok) {
+      console.warn('[PROJECT-ACCESS] Could not resolve Autodesk user:', response.status);
+      return null;
+    }
+
+    const profile = await response.json();
+    return profile.sub || null;
+  } catch (e) {
+    console.warn('[PROJECT-ACCESS] User profile lookup failed:', e instanceof Error ? e.message : String(e));
+    return null;
+  }
+}
+
+/**
+ * Loads the allowlist entries that apply to a user: global rows plus rows scoped to that user.
+ */
+export async function getAllowedProjects(autodeskUserId: string | null): Promise<AllowedProject[]> {
+  const supabase = getServiceClient();
+  const columns = 'project_id, hub_id, autodesk_user_id, name';
+
+  // Two plain filters rather than one .or() string, so the user ID never ends up inside filter syntax
+  const [globalRows, userRows] = await Promise.all([
+    supabase.from('allowed_projects').select(columns).is('autodesk_user_id', null),
+    autodeskUserId
+      ? supabase.from('allowed_projects').select(columns).eq('autodesk_user_id', autodeskUserId)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  const error = globalRows.error || userRows.error;
+  if (error) {
+    throw new Error(`Failed to load project allowlist: ${error.message}`);
+  }
+
+  return [...(globalRows.data || []), ...(userRows.data || [])];
+}
+
+/**
+ * Hub-scoped rows only match requests for that hub; without a hub they don't match at all.
+ */
+export const isProjectInAllowlist = (
+  allowedProjects: AllowedProject[],
+  projectId: string,
+  hubId?: string | null
+): boolean => {
+  const cleanProjectId = normalizeProjectId(projectId);
+  return allowedProjects.some((entry) =>
+    entry.project_id === cleanProjectId &&
+    (!entry.hub_id || entry.hub_id === hubId)
+  );
+};
+
+/**
+ * Guard used by every edge function that touches project data. When the caller doesn't know the hub
+ * and the project is only allowed in specific hubs, the project's hub is looked up with the user's token.
+ */
+export async function checkProjectAccess(
+  userToken: string,
+  projectId: string,
+  hubId?: string | null
+): Promise<ProjectAccessResult> {
+  const autodeskUserId = await getAutodeskUserId(userToken);
+  const allowedProjects = await getAllowedProjects(autodeskUserId);
+
+  const cleanProjectId = normalizeProjectId(projectId);
+  const needsHub = !hubId && allowedProjects.some((entry) => entry.project_id === cleanProjectId && entry.hub_id);
+  const effectiveHubId = needsHub
+    ? await resolveProjectHubId(userToken.replace(/^Bearer\s+/i, ''), cleanProjectId)
+    : hubId;
+  const allowed = isProjectInAllowlist(allowedProjects, projectId, effectiveHubId);
+
+  console.log(`[PROJECT-ACCESS] Project ${normalizeProjectId(projectId)} ${allowed ? 'allowed' : 'denied'} for user ${autodeskUserId || 'unknown'}`);
+
+  return { allowed, autodeskUserId };
+}
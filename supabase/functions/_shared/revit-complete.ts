@@ -0,0 +1,406 @@
+import { openOssObject, uploadStreamToOss } from "./oss-transfer.ts";
+
+// Every object a job writes to the shared temp bucket lives under its own prefix, so concurrent
+// saves can't overwrite each other's output
+export const jobObjectKey = (jobId: string, name: string) => `${jobId}/${name}`;
+
+export const isJobObjectKey = (jobId: string, objectKey: string) =>
+  objectKey.startsWith(jobObjectKey(jobId, '')) && !objectKey.includes('..');
+
+// The temp bucket is transient: Autodesk deletes its objects 24 hours after they are written
+export const TEMP_OBJECT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export interface RevitOutput {
+  jobId: string;
+  projectId: string;
+  itemId: string;
+  bucketKeyTemp: string;
+  outputObjectKey: string;
+  // true adds a version to the existing item; false creates a separate "_modified_" item
+  createNewVersion: boolean;
+  // Where an earlier attempt got to; its file is already in ACC storage
+  checkpoint?: PublishCheckpoint | null;
+  // Called once the file is in ACC storage, before the version or item is created
+  onUploaded?: (checkpoint: PublishCheckpoint) => Promise<void>;
+}
+
+export interface PublishCheckpoint {
+  storageId: string;
+  fileName: string;
+  size: number;
+}
+
+export interface RevitCompleteResult {
+  createdNewVersion: boolean;
+  itemId: string;
+  versionId: string | null;
+  versionNumber: number | null;
+  fileName: string;
+  uploadedSize: number;
+}
+
+const SSA_CLIENT_ID = 'DfARgfaBERc4spAWY2UOoKBKLH475EKX372DBiy0r9tYTKeL';
+
+// SSA 2-legged token for ACC operations
+async function getSsaToken(): Promise<string> {
+  const clientSecret = Deno.env.get('AUTODESK_SSA_CLIENT_SECRET');
+  if (!clientSecret) {
+    throw new Error('AUTODESK_SSA_CLIENT_SECRET not configured');
+  }
+
+  const tokenResponse = await fetch('https://developer.api.autodesk.com/authentication/v2/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: SSA_CLIENT_ID,
+      client_secret: clientSecret,
+      scope: 'data:read data:write data:create code:all',
+    }),
+  });
+
+  if (!tokenResponse.ok) {
+    const errorText = await tokenResponse.text();
+    throw new Error(`Failed to get token (${tokenResponse.status}): ${errorText}`);
+  }
+
+  const tokenData = await tokenResponse.json();
+  return tokenData.access_token;
+}
+
+async function fetchJson(url: string, init: RequestInit, failure: string) {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${failure} (${response.status}): ${errorText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Deletes a job's objects from the temp bucket; objects that were never written are skipped.
+ */
+export async function deleteJobObjects(jobId: string, bucketKey: string, objectKeys: string[]): Promise<void> {
+  const twoLeggedToken = await getSsaToken();
+
+  for (const objectKey of objectKeys) {
+    if (!isJobObjectKey(jobId, objectKey)) {
+      throw new Error(`Object ${objectKey} does not belong to job ${jobId}`);
+    }
+
+    const deleteResponse = await fetch(
+      `https://developer.api.autodesk.com/oss/v2/buckets/${bucketKey}/objects/${encodeURIComponent(objectKey)}`,
+      { method: 'DELETE', headers: { 'Authorization': `Bearer ${twoLeggedToken}` } }
+    );
+
+    if (!deleteResponse.ok && deleteResponse.status !== 404) {
+      const errorText = await deleteResponse.text();
+      throw new Error(`Failed to delete ${objectKey} (${deleteResponse.status}): ${errorText}`);
+    }
+  }
+}
+
+// Streams the WorkItem's output from the temp bucket into new ACC storage in the item's folder
+async function uploadOutputToAcc(
+  projectId: string,
+  folderId: string,
+  fileName: string,
+  bucketKeyTemp: string,
+  outputObjectKey: string,
+  token: string
+): Promise<{ storageId: string; size: number }> {
+  const authHeaders = { 'Authorization': `Bearer ${token}` };
+
+  // ========== STEP 9: OPEN MODIFIED FILE (via Signed S3 URL) ==========
+  console.log('[REVIT-COMPLETE] Opening modified file in the temp bucket...');
+
+  const modifiedFile = await openOssObject(bucketKeyTemp, outputObjectKey, token);
+  if (!modifiedFile) {
+    throw new Error('The modified file is no longer in the temp bucket (it expires after 24 hours); save the changes again');
+  }
+
+  // ========== STEP 10: UPLOAD TO ACC STORAGE ==========
+  console.log('[REVIT-COMPLETE] Uploading modified file back to ACC storage...');
+
+  const storagePayload = {
+    jsonapi: { version: '1.0' },
+    data: {
+      type: 'objects',
+      attributes: {
+        name: fileName
+      },
+      relationships: {
+        target: {
+          data: {
+            type: 'folders',
+            id: folderId
+          }
+        }
+      }
+    }
+  };
+
+  const newStorageData = await fetchJson(
+    `https://developer.api.autodesk.com/data/v1/projects/b.${projectId}/storage`,
+    {
+      method: 'POST',
+      headers: { ...authHeaders, 'Content-Type': 'application/vnd.api+json' },
+      body: JSON.stringify(storagePayload)
+    },
+    'Failed to create ACC storage'
+  );
+  const newStorageId = newStorageData.data.id;
+  console.log('[REVIT-COMPLETE] New ACC storage created:', newStorageId);
+
+  // Parse new storage ID and stream the modified file into it, part by part
+  const newStorageParts = newStorageId.split(':');
+  const newBucketAndObject = newStorageParts[newStorageParts.length - 1];
+  const [newBucketKey, ...newObjectKeyParts] = newBucketAndObject.split('/');
+  const newObjectKey = newObjectKeyParts.join('/');
+
+  console.log('[REVIT-COMPLETE] Streaming to bucket:', newBucketKey, 'object:', newObjectKey);
+  const size = await uploadStreamToOss(modifiedFile.body!, newBucketKey, newObjectKey, token);
+
+  console.log('[REVIT-COMPLETE] Modified file uploaded to ACC storage:', size, 'bytes');
+  return { storageId: newStorageId, size };
+}
+
+/**
+ * Publishes a finished WorkItem's output file to ACC: downloads it from the temp bucket, uploads it to
+ * the item's folder storage and creates either a new version of the item or a new item next to it.
+ * Used by the revit-complete endpoint and by the job poller, so saves finish without a browser.
+ *
+ * Resumable: once the file is in ACC storage the checkpoint is handed to `onUploaded`, and a later
+ * attempt given that checkpoint skips the transfer and picks up a version or item an earlier attempt
+ * already created instead of creating a second one.
+ */
+export async function completeRevitJob(output: RevitOutput): Promise<RevitCompleteResult> {
+  const { jobId, projectId, itemId, bucketKeyTemp, outputObjectKey, createNewVersion, checkpoint, onUploaded } = output;
+  console.log('[REVIT-COMPLETE] Processing completion for:', { jobId, projectId, itemId, bucketKeyTemp, outputObjectKey, createNewVersion, checkpoint });
+
+  if (!isJobObjectKey(jobId, outputObjectKey)) {
+    throw new Error(`Output object ${outputObjectKey} does not belong to job ${jobId}`);
+  }
+
+  const twoLeggedToken = await getSsaToken();
+  const authHeaders = { 'Authorization': `Bearer ${twoLeggedToken}` };
+
+  // ========== STEP 8: GET ITEM DETAILS ==========
+  console.log('[REVIT-COMPLETE] Fetching item details...');
+
+  const itemData = await fetchJson(
+    `https://developer.api.autodesk.com/data/v1/projects/b.${projectId}/items/${itemId}`,
+    { headers: authHeaders },
+    'Failed to fetch item details'
+  );
+
+  // Extract tip version ID to get original extension type
+  const tipVersionId = itemData.data.relationships?.tip?.data?.id;
+  if (!tipVersionId) {
+    throw new Error('Missing tip version in item data');
+  }
+
+  console.log('[REVIT-COMPLETE] Fetching version details for:', tipVersionId);
+
+  const versionData = await fetchJson(
+    `https://developer.api.autodesk.com/data/v1/projects/b.${projectId}/versions/${encodeURIComponent(tipVersionId)}`,
+    { headers: authHeaders },
+    'Failed to fetch version details'
+  );
+  const originalExtension = versionData.data.attributes?.extension;
+  console.log('[REVIT-COMPLETE] Original extension:', JSON.stringify(originalExtension));
+
+  const originalName = itemData.data.attributes.displayName;
+  const folderId = itemData.data.relationships.parent.data.id;
+
+  let uploaded: PublishCheckpoint;
+  if (checkpoint) {
+    console.log('[REVIT-COMPLETE] Resuming from ACC storage:', checkpoint.storageId);
+    uploaded = checkpoint;
+  } else {
+    // Generate a modified filename (kept in the checkpoint, so a retry creates the same item)
+    const baseName = originalName.replace(/\.rvt$/i, '');
+    const timestamp = new Date().toISOString().slice(0, 19).replace(/[:-]/g, '');
+    const fileName = createNewVersion ? originalName : `${baseName}_modified_${timestamp}.rvt`;
+
+    const { storageId, size } = await uploadOutputToAcc(
+      projectId, folderId, originalName, bucketKeyTemp, outputObjectKey, twoLeggedToken
+    );
+    uploaded = { storageId, fileName, size };
+  }
+
+  await onUploaded?.(uploaded);
+  const { storageId: newStorageId, fileName, size } = uploaded;
+
+  if (createNewVersion) {
+    // A previous attempt may have created the version before failing
+    const tipStorageId = versionData.data.relationships?.storage?.data?.id;
+    if (tipStorageId === newStorageId) {
+      console.log('[REVIT-COMPLETE] Version already created:', tipVersionId);
+      return {
+        createdNewVersion: true,
+        itemId,
+        versionId: tipVersionId,
+        versionNumber: versionData.data.attributes?.versionNumber ?? null,
+        fileName,
+        uploadedSize: size,
+      };
+    }
+
+    // ========== STEP 11: CREATE NEW VERSION OF THE SAME ITEM ==========
+    console.log('[REVIT-COMPLETE] Creating new version of item:', itemId);
+
+    // Keep the original extension (incl. C4R data) so ACC treats the upload like the previous versions
+    const versionPayload = {
+      jsonapi: { version: '1.0' },
+      data: {
+        type: 'versions',
+        attributes: {
+          name: originalName,
+          extension: {
+            type: originalExtension?.type || 'versions:autodesk.bim360:File',
+            version: originalExtension?.version || '1.0',
+            ...(originalExtension?.data ? { data: originalExtension.data } : {})
+          }
+        },
+        relationships: {
+          item: {
+            data: {
+              type: 'items',
+              id: itemId
+            }
+          },
+          storage: {
+            data: {
+              type: 'objects',
+              id: newStorageId
+            }
+          }
+        }
+      }
+    };
+
+    const newVersion = await fetchJson(
+      `https://developer.api.autodesk.com/data/v1/projects/b.${projectId}/versions`,
+      {
+        method: 'POST',
+        headers: { ...authHeaders, 'Content-Type': 'application/vnd.api+json' },
+        body: JSON.stringify(versionPayload)
+      },
+      'Failed to create new version in ACC'
+    );
+    const newVersionId = newVersion.data.id;
+    const newVersionNumber = newVersion.data.attributes?.versionNumber ?? null;
+
+    console.log('[REVIT-COMPLETE] New version created:', newVersionId, 'number:', newVersionNumber);
+
+    return {
+      createdNewVersion: true,
+      itemId,
+      versionId: newVersionId,
+      versionNumber: newVersionNumber,
+      fileName,
+      uploadedSize: size,
+    };
+  }
+
+  // A previous attempt may have created the item before failing
+  if (checkpoint) {
+    const existing = await fetchJson(
+      `https://developer.api.autodesk.com/data/v1/projects/b.${projectId}/folders/${encodeURIComponent(folderId)}/contents` +
+        `?filter[type]=items&filter[attributes.displayName]=${encodeURIComponent(fileName)}`,
+      { headers: authHeaders },
+      'Failed to look up existing item'
+    );
+    const versions: Array<{
+      id: string;
+      attributes?: { versionNumber?: number };
+      relationships?: { item?: { data?: { id: string } }; storage?: { data?: { id: string } } };
+    }> = existing.included || [];
+    const existingVersion = versions.find((version) => version.relationships?.storage?.data?.id === newStorageId);
+    const existingItemId = existingVersion?.relationships?.item?.data?.id;
+    if (existingItemId) {
+      console.log('[REVIT-COMPLETE] Item already created:', existingItemId);
+      return {
+        createdNewVersion: false,
+        itemId: existingItemId,
+        versionId: existingVersion.id,
+        versionNumber: existingVersion.attributes?.versionNumber ?? 1,
+        fileName,
+        uploadedSize: size,
+      };
+    }
+  }
+
+  // ========== STEP 11: CREATE NEW ITEM (instead of version) ==========
+  console.log('[REVIT-COMPLETE] Creating new item in ACC:', fileName);
+
+  const itemPayload = {
+    jsonapi: { version: '1.0' },
+    data: {
+      type: 'items',
+      attributes: {
+        displayName: fileName,
+        extension: {
+          type: 'items:autodesk.bim360:File',
+          version: '1.0'
+        }
+      },
+      relationships: {
+        tip: {
+          data: {
+            type: 'versions',
+            id: '1'
+          }
+        },
+        parent: {
+          data: {
+            type: 'folders',
+            id: folderId
+          }
+        }
+      }
+    },
+    included: [{
+      type: 'versions',
+      id: '1',
+      attributes: {
+        name: fileName,
+        extension: {
+          type: 'versions:autodesk.bim360:File',
+          version: '1.0'
+        }
+      },
+      relationships: {
+        storage: {
+          data: {
+            type: 'objects',
+            id: newStorageId
+          }
+        }
+      }
+    }]
+  };
+
+  const newItem = await fetchJson(
+    `https://developer.api.autodesk.com/data/v1/projects/b.${projectId}/items`,
+    {
+      method: 'POST',
+      headers: { ...authHeaders, 'Content-Type': 'application/vnd.api+json' },
+      body: JSON.stringify(itemPayload)
+    },
+    'Failed to create new item in ACC'
+  );
+  const newItemId = newItem.data.id;
+
+  console.log('[REVIT-COMPLETE] New item created:', newItemId);
+
+  return {
+    createdNewVersion: false,
+    itemId: newItemId,
+    versionId: newItem.included?.[0]?.id ?? null,
+    versionNumber: 1,
+    fileName,
+    uploadedSize: size,
+  };
+}
@@ -0,0 +1,276 @@
+import { getServiceClient } from "./project-access.ts";
+import { completeRevitJob, type PublishCheckpoint, type RevitCompleteResult } from "./revit-complete.ts";
+
+export type JobStatus = 'processing' | 'uploading' | 'completed' | 'failed' | 'cancelled';
+
+// Progress shown in the viewer: staging the input, the WorkItem's own steps, then publishing to ACC
+export type JobStage = 'staging' | 'queued' | 'downloading' | 'processing' | 'uploading' | 'versioning';
+
+export interface Job {
+  id: string;
+  autodesk_user_id: string | null;
+  project_id: string;
+  item_id: string;
+  version_urn: string | null;
+  status: JobStatus;
+  stage: JobStage;
+  work_item_id: string | null;
+  work_item_status: string | null;
+  bucket_key: string;
+  output_object_key: string;
+  create_new_version: boolean;
+  publish_checkpoint: PublishCheckpoint | null;
+  publish_attempts: number;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface WorkItemStats {
+  timeQueued?: string;
+  timeDownloadStarted?: string;
+  timeInstructionsStarted?: string;
+  timeInstructionsEnded?: string;
+  timeUploadEnded?: string;
+  bytesDownloaded?: number;
+  bytesUploaded?: number;
+}
+
+export interface WorkItemStatus {
+  status: string;
+  reportUrl?: string;
+  stats?: WorkItemStats;
+}
+
+const DA_CLIENT_ID = 'UonGGAilCryEuzl6kCD2owAcIiFZXobglVyZamHkTktJg2AY';
+
+// Design Automation reports these while a WorkItem is queued or running
+const RUNNING_WORK_ITEM_STATUSES = ['pending', 'inprogress'];
+
+// How long the signed URLs revit-modify hands the WorkItem stay valid. They're issued just before the
+// WorkItem is created and OSS allows no more than 60 minutes, so a WorkItem that waits too long in
+// Design Automation's queue finds them expired.
+const INPUT_URL_VALIDITY_MS = 60 * 60 * 1000;
+const OUTPUT_URL_VALIDITY_MS = 30 * 60 * 1000;
+
+// The Design Automation app also owns the staging bucket; pass the scopes needed for it
+export async function getDesignAutomationToken(scope = 'code:all'): Promise<string> {
+  const clientSecret = Deno.env.get('AUTODESK_CLIENT_SECRET');
+  if (!clientSecret) {
+    throw new Error('AUTODESK_CLIENT_SECRET not configured');
+  }
+
+  const tokenResponse = await fetch('https://developer.api.autodesk.com/authentication/v2/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: DA_CLIENT_ID,
+      client_secret: clientSecret,
+      scope,
+    }),
+  });
+
+  if (!tokenResponse.ok) {
+    const errorText = await tokenResponse.text();
+    throw new Error(`Failed to get token (${tokenResponse.status}): ${errorText}`);
+  }
+
+  const tokenData = await tokenResponse.json();
+  return tokenData.access_token;
+}
+
+export async function getWorkItemStatus(workItemId: string, token: string): Promise<WorkItemStatus> {
+  const statusResponse = await fetch(
+    `https://developer.api.autodesk.com/da/us-east/v3/workitems/${workItemId}`,
+    { headers: { 'Authorization': `Bearer ${token}` } }
+  );
+
+  if (!statusResponse.ok) {
+    const errorText = await statusResponse.text();
+    throw new Error(`Failed to query WorkItem status (${statusResponse.status}): ${errorText}`);
+  }
+
+  return statusResponse.json();
+}
+
+export async function cancelWorkItem(workItemId: string, token: string): Promise<void> {
+  const cancelResponse = await fetch(
+    `https://developer.api.autodesk.com/da/us-east/v3/workitems/${workItemId}`,
+    { method: 'DELETE', headers: { 'Authorization': `Bearer ${token}` } }
+  );
+
+  if (!cancelResponse.ok) {
+    const errorText = await cancelResponse.text();
+    throw new Error(`Failed to cancel WorkItem (${cancelResponse.status}): ${errorText}`);
+  }
+}
+
+// Where a running WorkItem is, from the timestamps Design Automation has filled in so far
+export const stageFromWorkItem = (workItem: WorkItemStatus): JobStage => {
+  const stats = workItem.stats || {};
+  if (stats.timeInstructionsEnded) return 'uploading';
+  if (stats.timeInstructionsStarted) return 'processing';
+  if (stats.timeDownloadStarted) return 'downloading';
+  return 'queued';
+};
+
+const updateJob = async (jobId: string, fields: Record<string, unknown>, fromStatuses?: JobStatus[]) => {
+  let query = getServiceClient()
+    .from('jobs')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', jobId);
+  if (fromStatuses) query = query.in('status', fromStatuses);
+
+  const { error } = await query;
+  if (error) throw new Error(`Failed to update job ${jobId}: ${error.message}`);
+};
+
+// A job is only followed, cancelled or retried by the Autodesk user who started it
+export const isJobOwner = (job: Job, autodeskUserId: string | null) =>
+  !!autodeskUserId && job.autodesk_user_id === autodeskUserId;
+
+// Only a job still in progress is failed; one cancelled meanwhile stays cancelled
+export const failJob = (jobId: string, message: string, extra: Record<string, unknown> = {}) =>
+  updateJob(
+    jobId,
+    { ...extra, status: 'failed', error: message, completed_at: new Date().toISOString() },
+    ['processing', 'uploading']
+  );
+
+/**
+ * Publishes a job's output to ACC. Whoever moves the job from one of `fromStatuses` to uploading
+ * first does the work (that update is the claim), so the same result is never published twice.
+ * A failed job can be published again: it resumes from its checkpoint once the file is in ACC storage.
+ * Returns null when another caller has the job; throws (after failing the job) if publishing fails.
+ */
+export async function publishJob(
+  job: Job,
+  fromStatuses: JobStatus[] = ['processing'],
+  fields: Record<string, unknown> = {}
+): Promise<RevitCompleteResult | null> {
+  const supabase = getServiceClient();
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('jobs')
+    .update({
+      ...fields,
+      status: 'uploading',
+      stage: 'uploading',
+      error: null,
+      publish_attempts: job.publish_attempts + 1,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .in('status', fromStatuses)
+    .select('id');
+  if (claimError) throw new Error(`Failed to claim job ${job.id}: ${claimError.message}`);
+  if (!claimed?.length) {
+    console.log(`[REVIT-JOBS] Job ${job.id} already claimed`);
+    return null;
+  }
+
+  let result: RevitCompleteResult;
+  try {
+    result = await completeRevitJob({
+      jobId: job.id,
+      projectId: job.project_id,
+      itemId: job.item_id,
+      bucketKeyTemp: job.bucket_key,
+      outputObjectKey: job.output_object_key,
+      createNewVersion: job.create_new_version,
+      checkpoint: job.publish_checkpoint,
+      onUploaded: (checkpoint) => updateJob(job.id, { stage: 'versioning', publish_checkpoint: checkpoint }),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[REVIT-JOBS] Job ${job.id} failed to publish:`, message);
+    await failJob(job.id, message);
+    throw error;
+  }
+
+  await updateJob(job.id, { status: 'completed', result, completed_at: new Date().toISOString() });
+  console.log(`[REVIT-JOBS] Job ${job.id} published as ${result.versionId}`);
+
+  // The edits are in ACC now; drop the autosaved draft so reopening the old version doesn't offer them again
+  if (job.autodesk_user_id && job.version_urn) {
+    const { error } = await supabase
+      .from('drafts')
+      .delete()
+      .match({
+        autodesk_user_id: job.autodesk_user_id,
+        project_id: job.project_id,
+        item_id: job.item_id,
+        version_urn: job.version_urn,
+      });
+    if (error) console.warn(`[REVIT-JOBS] Failed to delete draft for job ${job.id}:`, error.message);
+  }
+
+  return result;
+}
+
+/**
+ * Records a running WorkItem's progress on its job (only while the job is still processing).
+ */
+async function recordWorkItemProgress(job: Job, workItem: WorkItemStatus): Promise<void> {
+  const stage = stageFromWorkItem(workItem);
+  const { error } = await getServiceClient()
+    .from('jobs')
+    .update({
+      work_item_status: workItem.status,
+      work_item_stats: workItem.stats ?? null,
+      stage,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('status', 'processing');
+  if (error) throw new Error(`Failed to update job ${job.id}: ${error.message}`);
+}
+
+// A failed transfer that started after its signed URL ran out most likely failed because of it
+const describeWorkItemFailure = (job: Job, workItem: WorkItemStatus) => {
+  const message = `Design Automation job ${workItem.status}`;
+  const stats = workItem.stats || {};
+  const queuedAt = new Date(stats.timeQueued || job.created_at).getTime();
+  const sinceQueued = (time?: string) => (time ? new Date(time).getTime() - queuedAt : 0);
+
+  if (workItem.status === 'failedDownload' && sinceQueued(stats.timeDownloadStarted) > INPUT_URL_VALIDITY_MS) {
+    return `${message}: the WorkItem was queued for over ${INPUT_URL_VALIDITY_MS / 60000} minutes and the ` +
+      `signed URLs of its input files had likely expired; save the changes again`;
+  }
+  if (workItem.status === 'failedUpload' && sinceQueued(stats.timeInstructionsEnded) > OUTPUT_URL_VALIDITY_MS) {
+    return `${message}: the WorkItem finished more than ${OUTPUT_URL_VALIDITY_MS / 60000} minutes after it ` +
+      `was submitted and the signed URL for its output had likely expired; save the changes again`;
+  }
+  return message;
+};
+
+/**
+ * Moves a job on from its WorkItem's latest status, publishing a successful result to ACC.
+ */
+export async function advanceJob(job: Job, workItem: WorkItemStatus): Promise<void> {
+  if (RUNNING_WORK_ITEM_STATUSES.includes(workItem.status)) {
+    if (workItem.status !== job.work_item_status || stageFromWorkItem(workItem) !== job.stage) {
+      await recordWorkItemProgress(job, workItem);
+    }
+    return;
+  }
+
+  const finished = {
+    work_item_status: workItem.status,
+    work_item_stats: workItem.stats ?? null,
+    report_url: workItem.reportUrl ?? null,
+  };
+
+  if (workItem.status !== 'success') {
+    console.error(`[REVIT-JOBS] Job ${job.id} WorkItem ${job.work_item_id} ended with ${workItem.status}`);
+    await failJob(job.id, describeWorkItemFailure(job, workItem), finished);
+    return;
+  }
+
+  try {
+    await publishJob(job, ['processing'], finished);
+  } catch {
+    // Already recorded on the job by publishJob
+  }
+}
@@ -1,30 +1,40 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { checkProjectAccess, normalizeProjectId } from "../_shared/project-access.ts";
+import { resolveProjectHubId } from "../_shared/hubs.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// SECURITY: Whitelist of allowed project IDs
-const ALLOWED_PROJECT_ID = 'd27a6383-5881-4756-9cff-3deccd318427';
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { token, projectId, folderUrn, entityId } = await req.json();
+    const { token, projectId, hubId: requestedHubId, folderUrn, entityId } = await req.json();
 
-    console.log('Fetching files for project:', projectId, 'folderUrn:', folderUrn, 'entityId:', entityId);
+    console.log('Fetching files for project:', projectId, 'hub:', requestedHubId, 'folderUrn:', folderUrn, 'entityId:', entityId);
     
-    // SECURITY: Validate project ID against whitelist
-    const cleanProjectId = projectId.replace('b.', '');
-    if (cleanProjectId !== ALLOWED_PROJECT_ID) {
-      console.error(`Access denied: Project ${cleanProjectId} not in whitelist`);
+    const cleanProjectId = normalizeProjectId(projectId);
+
+    // Use the hub the caller picked, otherwise find the hub the project actually lives in
+    const hubId = requestedHubId || await resolveProjectHubId(token, cleanProjectId);
+
+    if (!hubId) {
+      return new Response(JSON.stringify({ error: 'Project not found in any hub', data: [], included: [] }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // SECURITY: Validate project ID against the allowlist (hub-scoped entries need the resolved hub)
+    const { allowed } = await checkProjectAccess(token, cleanProjectId, hubId);
+    if (!allowed) {
+      console.error(`Access denied: Project ${cleanProjectId} not in allowlist`);
       return new Response(JSON.stringify({ 
-        error: 'Access denied: This project is not authorized',
-        allowed_project: ALLOWED_PROJECT_ID
+        error: 'Access denied: This project is not authorized'
       }), {
         status: 403,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -34,25 +44,6 @@ serve(async (req) => {
     // Ensure project ID has 'b.' prefix
     const formattedProjectId = projectId.startsWith('b.') ? projectId : `b.${projectId}`;
 
-    // First, get the project details to find its hub
-    const projectUrl = `https://developer.api.autodesk.com/project/v1/hubs`;
-    const hubsResponse = await fetch(projectUrl, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-    });
-
-    const hubsData = await hubsResponse.json();
-    console.log('Hubs response:', hubsData);
-    
-    if (!hubsData.data || hubsData.data.length === 0) {
-      return new Response(JSON.stringify({ error: 'No hubs found', data: [], included: [] }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
-    // Use the first hub (or find the right one)
-    const hubId = hubsData.data[0].id;
     console.log('Using hub:', hubId);
 
     // Helper function to recursively search folders for files
@@ -116,7 +107,7 @@ serve(async (req) => {
     console.log('Folders response:', foldersData);
 
     if (!foldersData.data || foldersData.data.length === 0) {
-      return new Response(JSON.stringify({ error: 'No folders found', data: [], included: [] }), {
+      return new Response(JSON.stringify({ error: 'No folders found', data: [], included: [], hubId }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
@@ -144,7 +135,8 @@ serve(async (req) => {
           console.log('Found specific file:', specificFile);
           return new Response(JSON.stringify({ 
             data: [specificFile],
-            included: []
+            included: [],
+            hubId
           }), {
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           });
@@ -161,7 +153,8 @@ serve(async (req) => {
       if (files.length > 0) {
         return new Response(JSON.stringify({ 
           data: files,
-          included: []
+          included: [],
+          hubId
         }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
@@ -184,7 +177,8 @@ serve(async (req) => {
 
     return new Response(JSON.stringify({ 
       data: allFiles,
-      included: []
+      included: [],
+      hubId
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -0,0 +1,119 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { checkProjectAccess, normalizeProjectId } from "../_shared/project-access.ts";
+import { resolveProjectHubId } from "../_shared/hubs.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DEFAULT_PAGE_LIMIT = 50;
+const MAX_PAGE_LIMIT = 200;
+
+// Lists one level of the ACC folder tree.
+// Without folderId it returns the project's top folders, otherwise one page of the folder's contents
+// (subfolders + items, with the items' tip versions in `included`).
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { token, projectId, hubId, folderId, pageNumber = 0, pageLimit = DEFAULT_PAGE_LIMIT } = await req.json();
+
+    if (!token || !projectId) {
+      return new Response(JSON.stringify({ error: 'Missing required parameters', required: ['token', 'projectId'] }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // SECURITY: Validate project ID against the allowlist
+    const cleanProjectId = normalizeProjectId(projectId);
+    const { allowed } = await checkProjectAccess(token, cleanProjectId, hubId);
+    if (!allowed) {
+      console.error(`Access denied: Project ${cleanProjectId} not in allowlist`);
+      return new Response(JSON.stringify({ error: 'Access denied: This project is not authorized' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const formattedProjectId = `b.${cleanProjectId}`;
+
+    if (!folderId) {
+      const resolvedHubId = hubId || await resolveProjectHubId(token, cleanProjectId);
+
+      if (!resolvedHubId) {
+        return new Response(JSON.stringify({ error: 'Project not found in any hub' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      console.log('Fetching top folders for project:', formattedProjectId, 'hub:', resolvedHubId);
+
+      const topFoldersResponse = await fetch(
+        `https://developer.api.autodesk.com/project/v1/hubs/${resolvedHubId}/projects/${formattedProjectId}/topFolders`,
+        { headers: { 'Authorization': `Bearer ${token}` } }
+      );
+
+      if (!topFoldersResponse.ok) {
+        const errorText = await topFoldersResponse.text();
+        return new Response(JSON.stringify({ error: 'Failed to fetch top folders', details: errorText }), {
+          status: topFoldersResponse.status,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const topFoldersData = await topFoldersResponse.json();
+
+      return new Response(JSON.stringify({
+        data: topFoldersData.data || [],
+        included: [],
+        nextPage: null,
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const limit = Math.min(Math.max(Number(pageLimit) || DEFAULT_PAGE_LIMIT, 1), MAX_PAGE_LIMIT);
+    const page = Math.max(Number(pageNumber) || 0, 0);
+    const contentsUrl = `https://developer.api.autodesk.com/data/v1/projects/${formattedProjectId}/folders/${encodeURIComponent(folderId)}/contents` +
+      `?page[number]=${page}&page[limit]=${limit}`;
+
+    console.log('Fetching folder contents:', folderId, 'page:', page, 'limit:', limit);
+
+    const contentsResponse = await fetch(contentsUrl, {
+      headers: { 'Authorization': `Bearer ${token}` },
+    });
+
+    if (!contentsResponse.ok) {
+      const errorText = await contentsResponse.text();
+      return new Response(JSON.stringify({ error: 'Failed to fetch folder contents', details: errorText }), {
+        status: contentsResponse.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const contentsData = await contentsResponse.json();
+    const hasNextPage = !!contentsData.links?.next?.href;
+
+    console.log(`Folder ${folderId} page ${page}: ${contentsData.data?.length || 0} entries, more: ${hasNextPage}`);
+
+    return new Response(JSON.stringify({
+      data: contentsData.data || [],
+      included: contentsData.included || [],
+      nextPage: hasNextPage ? page + 1 : null,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Folder contents error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ error: message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,38 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { listHubs } from "../_shared/hubs.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { token } = await req.json();
+
+    if (!token) {
+      return new Response(JSON.stringify({ error: 'Missing required parameters', required: ['token'] }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const hubs = await listHubs(token);
+    console.log(`Found ${hubs.length} hubs:`, hubs.map((hub) => hub.name));
+
+    return new Response(JSON.stringify({ data: hubs }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Hubs error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ error: message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,64 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { checkProjectAccess, normalizeProjectId } from "../_shared/project-access.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { token, projectId, hubId, itemId } = await req.json();
+
+    if (!token || !projectId || !itemId) {
+      return new Response(JSON.stringify({ error: 'Missing required parameters', required: ['token', 'projectId', 'itemId'] }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // SECURITY: Validate project ID against the allowlist
+    const cleanProjectId = normalizeProjectId(projectId);
+    const { allowed } = await checkProjectAccess(token, cleanProjectId, hubId);
+    if (!allowed) {
+      console.error(`Access denied: Project ${cleanProjectId} not in allowlist`);
+      return new Response(JSON.stringify({ error: 'Access denied: This project is not authorized' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.log('Fetching versions for item:', itemId);
+
+    const versionsResponse = await fetch(
+      `https://developer.api.autodesk.com/data/v1/projects/b.${cleanProjectId}/items/${encodeURIComponent(itemId)}/versions`,
+      { headers: { 'Authorization': `Bearer ${token}` } }
+    );
+
+    if (!versionsResponse.ok) {
+      const errorText = await versionsResponse.text();
+      return new Response(JSON.stringify({ error: 'Failed to fetch item versions', details: errorText }), {
+        status: versionsResponse.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const versionsData = await versionsResponse.json();
+    console.log(`Item ${itemId}: ${versionsData.data?.length || 0} versions`);
+
+    return new Response(JSON.stringify({ data: versionsData.data || [] }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Item versions error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ error: message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
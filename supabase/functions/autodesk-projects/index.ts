@@ -1,57 +1,60 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getAllowedProjects, getAutodeskUserId, isProjectInAllowlist } from "../_shared/project-access.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// SECURITY: Whitelist of allowed project IDs
-const ALLOWED_PROJECT_ID = 'd27a6383-5881-4756-9cff-3deccd318427';
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { token } = await req.json();
-
-    // Get hubs (accounts)
-    const hubsResponse = await fetch('https://developer.api.autodesk.com/project/v1/hubs', {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-    });
+    const { token, hubId } = await req.json();
 
-    const hubsData = await hubsResponse.json();
-    console.log('Hubs response:', hubsData);
-
-    // Get projects from first hub
-    const hubId = hubsData.data[0]?.id;
-    if (!hubId) {
-      throw new Error('No hubs found');
+    if (!token || !hubId) {
+      return new Response(JSON.stringify({ error: 'Missing required parameters', required: ['token', 'hubId'] }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
+    console.log('Fetching projects for hub:', hubId);
+
     const projectsResponse = await fetch(`https://developer.api.autodesk.com/project/v1/hubs/${hubId}/projects`, {
       headers: {
         'Authorization': `Bearer ${token}`,
       },
     });
 
+    if (!projectsResponse.ok) {
+      const errorText = await projectsResponse.text();
+      return new Response(JSON.stringify({ error: 'Failed to fetch projects', details: errorText }), {
+        status: projectsResponse.status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     const projectsData = await projectsResponse.json();
     console.log('Projects response:', projectsData);
 
-    // SECURITY: Filter to only return the whitelisted project
-    const filteredProjects = (projectsData.data || []).filter((project: any) => {
-      const projectId = project.id.replace('b.', '');
-      return projectId === ALLOWED_PROJECT_ID;
-    });
+    // SECURITY: Filter to the projects in the allowlist for this user
+    const userId = await getAutodeskUserId(token);
+    const allowedProjects = await getAllowedProjects(userId);
+    const filteredProjects = (projectsData.data || []).filter((project: any) =>
+      isProjectInAllowlist(allowedProjects, project.id, hubId)
+    );
 
-    console.log(`Filtered from ${projectsData.data?.length || 0} to ${filteredProjects.length} projects (whitelist: ${ALLOWED_PROJECT_ID})`);
+    console.log(`Filtered from ${projectsData.data?.length || 0} to ${filteredProjects.length} projects (${allowedProjects.length} allowlist entries)`);
 
     return new Response(JSON.stringify({ 
       data: filteredProjects,
-      links: projectsData.links 
+      links: projectsData.links,
+      userId,
+      // The caller's own allowlist entries; the table itself isn't readable from the browser
+      allowedProjects
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
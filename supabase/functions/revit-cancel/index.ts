@@ -0,0 +1,122 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { checkProjectAccess, getServiceClient } from "../_shared/project-access.ts";
+import { deleteJobObjects, jobObjectKey } from "../_shared/revit-complete.ts";
+import { cancelWorkItem, getDesignAutomationToken, isJobOwner } from "../_shared/revit-jobs.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Cancels a save whose WorkItem hasn't finished: the job is marked cancelled first (so the callback
+// and poller leave it alone), then the WorkItem is stopped and the job's temp objects are deleted
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  console.log('[REVIT-CANCEL] Request received at', new Date().toISOString());
+
+  try {
+    const { token, jobId } = await req.json();
+
+    if (!token || !jobId) {
+      return new Response(
+        JSON.stringify({
+          error: 'Missing required parameters',
+          required: ['token', 'jobId']
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = getServiceClient();
+
+    const { data: job, error } = await supabase
+      .from('jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load job: ${error.message}`);
+
+    if (!job) {
+      return new Response(
+        JSON.stringify({ error: 'Job not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // SECURITY: Validate the job's project against the allowlist
+    const { allowed, autodeskUserId } = await checkProjectAccess(token, job.project_id);
+    if (!allowed) {
+      console.error(`Access denied: Project ${job.project_id} not in allowlist`);
+      return new Response(
+        JSON.stringify({ error: 'Access denied: This project is not authorized' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!isJobOwner(job, autodeskUserId)) {
+      console.error(`Access denied: Job ${jobId} was not started by user ${autodeskUserId || 'unknown'}`);
+      return new Response(
+        JSON.stringify({ error: 'Access denied: This job belongs to another user' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Once publishing to ACC has started the save can no longer be taken back
+    const { data: cancelled, error: cancelError } = await supabase
+      .from('jobs')
+      .update({
+        status: 'cancelled',
+        error: 'Cancelled by user',
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', jobId)
+      .eq('status', 'processing')
+      .select('id');
+    if (cancelError) throw new Error(`Failed to cancel job: ${cancelError.message}`);
+
+    if (!cancelled?.length) {
+      return new Response(
+        JSON.stringify({ error: `Job can no longer be cancelled (${job.status})`, status: job.status }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log('[REVIT-CANCEL] Job cancelled:', jobId);
+
+    // The job is already cancelled; leftovers are only logged (DA cleans up, the bucket is transient)
+    if (job.work_item_id) {
+      try {
+        await cancelWorkItem(job.work_item_id, await getDesignAutomationToken());
+        console.log('[REVIT-CANCEL] ✓ WorkItem cancelled:', job.work_item_id);
+      } catch (e) {
+        console.warn('[REVIT-CANCEL] Failed to cancel WorkItem:', e);
+      }
+    }
+
+    try {
+      await deleteJobObjects(job.id, job.bucket_key, [job.output_object_key, jobObjectKey(job.id, 'transforms.json')]);
+      console.log('[REVIT-CANCEL] ✓ Temp objects deleted for job:', jobId);
+    } catch (e) {
+      console.warn('[REVIT-CANCEL] Failed to delete temp objects:', e);
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, jobId, status: 'cancelled' }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('[REVIT-CANCEL] Error:', error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,10 +1,16 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { checkProjectAccess, getServiceClient } from "../_shared/project-access.ts";
+import { isJobObjectKey, TEMP_OBJECT_RETENTION_MS } from "../_shared/revit-complete.ts";
+import { isJobOwner, publishJob, type Job } from "../_shared/revit-jobs.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Publishes a finished job by hand (the viewer's "Retry upload" after a failed upload); saves are
+// normally published by revit-workitem-callback or revit-job-poller. Safe to call again for the same
+// job: a completed job returns its result, a failed one resumes where its last attempt stopped.
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -13,388 +19,100 @@ serve(async (req) => {
   console.log('[REVIT-COMPLETE] Request received at', new Date().toISOString());
 
   try {
-    const { token, projectId, itemId, folderUrn, bucketKeyTemp, outputObjectKey } = await req.json();
+    const { token, jobId, bucketKeyTemp, outputObjectKey } = await req.json();
 
     // Validate required fields
-    if (!token || !projectId || !itemId || !bucketKeyTemp || !outputObjectKey) {
+    if (!token || !jobId) {
       return new Response(
-        JSON.stringify({ 
+        JSON.stringify({
           error: 'Missing required parameters',
-          required: ['token', 'projectId', 'itemId', 'bucketKeyTemp', 'outputObjectKey']
+          required: ['token', 'jobId']
         }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    console.log('[REVIT-COMPLETE] Processing completion for:', { projectId, itemId, bucketKeyTemp, outputObjectKey });
+    const { data: job, error } = await getServiceClient()
+      .from('jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load job: ${error.message}`);
 
-    // Get SSA 2-legged token for ACC operations
-    const clientId = 'DfARgfaBERc4spAWY2UOoKBKLH475EKX372DBiy0r9tYTKeL'; // SSA app
-    const clientSecret = Deno.env.get('AUTODESK_SSA_CLIENT_SECRET');
-
-    if (!clientSecret) {
-      return new Response(
-        JSON.stringify({ error: 'AUTODESK_SSA_CLIENT_SECRET not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const tokenResponse = await fetch('https://developer.api.autodesk.com/authentication/v2/token', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body: new URLSearchParams({
-        grant_type: 'client_credentials',
-        client_id: clientId,
-        client_secret: clientSecret,
-        scope: 'data:read data:write data:create code:all',
-      }),
-    });
-
-    if (!tokenResponse.ok) {
-      const error = await tokenResponse.text();
-      return new Response(
-        JSON.stringify({ error: 'Failed to get token', details: error }),
-        { status: tokenResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const tokenData = await tokenResponse.json();
-    const twoLeggedToken = tokenData.access_token;
-
-    // ========== STEP 8: DOWNLOAD MODIFIED FILE (via Signed S3 URL) ==========
-    console.log('[REVIT-COMPLETE] Getting signed download URL for modified file...');
-
-    const encodedObjectKey = encodeURIComponent(outputObjectKey);
-    const signedUrlEndpoint = `https://developer.api.autodesk.com/oss/v2/buckets/${bucketKeyTemp}/objects/${encodedObjectKey}/signeds3download`;
-
-    const signedUrlResponse = await fetch(signedUrlEndpoint, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${twoLeggedToken}`
-      }
-    });
-
-    if (!signedUrlResponse.ok) {
-      const errorText = await signedUrlResponse.text();
+    if (!job) {
       return new Response(
-        JSON.stringify({ 
-          error: 'Failed to get signed download URL',
-          details: errorText 
-        }),
-        { status: signedUrlResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'Job not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const signedUrlData = await signedUrlResponse.json();
-    const downloadUrl = signedUrlData.url;
-
-    if (!downloadUrl) {
-      return new Response(
-        JSON.stringify({ 
-          error: 'No download URL in signed URL response',
-          details: signedUrlData 
-        }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    console.log('[REVIT-COMPLETE] Downloading modified file from signed URL...');
-
-    const modifiedFileResponse = await fetch(downloadUrl); // No auth header needed for signed S3 URL
-
-    if (!modifiedFileResponse.ok) {
-      const errorText = await modifiedFileResponse.text();
-      return new Response(
-        JSON.stringify({ 
-          error: 'Failed to download modified file from signed URL',
-          details: errorText 
-        }),
-        { status: modifiedFileResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const modifiedFile = await modifiedFileResponse.blob();
-    console.log('[REVIT-COMPLETE] ✓ Modified file downloaded, size:', modifiedFile.size, 'bytes');
-
-    // ========== STEP 9: GET ITEM DETAILS ==========
-    console.log('[REVIT-COMPLETE] Fetching item details...');
-    
-    const itemResponse = await fetch(
-      `https://developer.api.autodesk.com/data/v1/projects/b.${projectId}/items/${itemId}`,
-      { headers: { 'Authorization': `Bearer ${twoLeggedToken}` } }
-    );
-
-    if (!itemResponse.ok) {
-      const errorText = await itemResponse.text();
+    // SECURITY: Validate the job's project against the allowlist
+    const { allowed, autodeskUserId } = await checkProjectAccess(token, job.project_id);
+    if (!allowed) {
+      console.error(`Access denied: Project ${job.project_id} not in allowlist`);
       return new Response(
-        JSON.stringify({ 
-          error: 'Failed to fetch item details',
-          details: errorText 
-        }),
-        { status: itemResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'Access denied: This project is not authorized' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const itemData = await itemResponse.json();
-    
-    // Extract tip version ID to get original extension type
-    const tipVersionId = itemData.data.relationships?.tip?.data?.id;
-    if (!tipVersionId) {
-      return new Response(
-        JSON.stringify({ error: 'Missing tip version in item data' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-    
-    console.log('[REVIT-COMPLETE] Fetching version details for:', tipVersionId);
-    
-    const versionResponse = await fetch(
-      `https://developer.api.autodesk.com/data/v1/projects/b.${projectId}/versions/${encodeURIComponent(tipVersionId)}`,
-      { headers: { 'Authorization': `Bearer ${twoLeggedToken}` } }
-    );
-    
-    if (!versionResponse.ok) {
-      const errorText = await versionResponse.text();
+    if (!isJobOwner(job, autodeskUserId)) {
+      console.error(`Access denied: Job ${jobId} was not started by user ${autodeskUserId || 'unknown'}`);
       return new Response(
-        JSON.stringify({ error: 'Failed to fetch version details', details: errorText }),
-        { status: versionResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'Access denied: This job belongs to another user' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
-    
-    const versionData = await versionResponse.json();
-    const originalExtension = versionData.data.attributes?.extension;
-    console.log('[REVIT-COMPLETE] Original extension:', JSON.stringify(originalExtension));
-
-    // ========== STEP 10: UPLOAD TO ACC STORAGE ==========
-    console.log('[REVIT-COMPLETE] Uploading modified file back to ACC storage...');
-    
-    const storagePayload = {
-      jsonapi: { version: '1.0' },
-      data: {
-        type: 'objects',
-        attributes: {
-          name: itemData.data.attributes.displayName
-        },
-        relationships: {
-          target: {
-            data: {
-              type: 'folders',
-              id: itemData.data.relationships.parent.data.id
-            }
-          }
-        }
-      }
-    };
-
-    const createStorageResponse = await fetch(
-      `https://developer.api.autodesk.com/data/v1/projects/b.${projectId}/storage`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${twoLeggedToken}`,
-          'Content-Type': 'application/vnd.api+json'
-        },
-        body: JSON.stringify(storagePayload)
-      }
-    );
 
-    if (!createStorageResponse.ok) {
-      const errorText = await createStorageResponse.text();
+    // Older clients name the object themselves; it has to be the one this job wrote
+    if ((bucketKeyTemp && bucketKeyTemp !== job.bucket_key) ||
+        (outputObjectKey && outputObjectKey !== job.output_object_key) ||
+        !isJobObjectKey(job.id, job.output_object_key)) {
+      console.error(`[REVIT-COMPLETE] Object ${bucketKeyTemp}/${outputObjectKey} does not belong to job ${job.id}`);
       return new Response(
-        JSON.stringify({ 
-          error: 'Failed to create ACC storage',
-          details: errorText 
-        }),
-        { status: createStorageResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'Output object does not belong to this job' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const newStorageData = await createStorageResponse.json();
-    const newStorageId = newStorageData.data.id;
-    console.log('[REVIT-COMPLETE] New ACC storage created:', newStorageId);
-
-    // Parse new storage ID and upload modified file
-    const newStorageParts = newStorageId.split(':');
-    const newBucketAndObject = newStorageParts[newStorageParts.length - 1];
-    const [newBucketKey, ...newObjectKeyParts] = newBucketAndObject.split('/');
-    const newObjectKey = newObjectKeyParts.join('/');
-
-    // Step 1: Request signed upload URL (GET request to initiate)
-    const uploadUrl = `https://developer.api.autodesk.com/oss/v2/buckets/${newBucketKey}/objects/${newObjectKey}/signeds3upload?firstPart=1&parts=1`;
-    
-    console.log('[REVIT-COMPLETE] Requesting signed upload URL for bucket:', newBucketKey, 'object:', newObjectKey);
-    console.log('[REVIT-COMPLETE] Full upload URL:', uploadUrl);
-    
-    const signedUploadResponse = await fetch(
-      uploadUrl,
-      {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${twoLeggedToken}`
-        }
-      }
-    );
-
-    console.log('[REVIT-COMPLETE] Response status:', signedUploadResponse.status);
-    console.log('[REVIT-COMPLETE] Response headers:', Object.fromEntries(signedUploadResponse.headers.entries()));
-    
-    const responseText = await signedUploadResponse.text();
-    console.log('[REVIT-COMPLETE] Raw response:', responseText);
-
-    if (!signedUploadResponse.ok) {
+    if (job.status === 'completed') {
       return new Response(
-        JSON.stringify({ 
-          error: 'Failed to request signed upload URL',
-          details: responseText 
-        }),
-        { status: signedUploadResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ success: true, ...job.result }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const signedUploadData = JSON.parse(responseText);
-    console.log('[REVIT-COMPLETE] Parsed response - uploadKey:', signedUploadData.uploadKey, 'urls count:', signedUploadData.urls?.length);
-    
-    // Step 2: Upload to signed S3 URL
-    const s3UploadResponse = await fetch(signedUploadData.urls[0], {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/octet-stream' },
-      body: modifiedFile
-    });
-
-    if (!s3UploadResponse.ok) {
-      const errorText = await s3UploadResponse.text();
+    if (job.work_item_status !== 'success') {
       return new Response(
-        JSON.stringify({ 
-          error: 'Failed to upload to S3',
-          details: errorText 
-        }),
-        { status: s3UploadResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: `WorkItem has not succeeded (${job.work_item_status || 'unknown'})` }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Step 3: Complete the upload
-    const completeUploadResponse = await fetch(
-      `https://developer.api.autodesk.com/oss/v2/buckets/${newBucketKey}/objects/${newObjectKey}/signeds3upload`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${twoLeggedToken}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ uploadKey: signedUploadData.uploadKey })
-      }
-    );
-
-    if (!completeUploadResponse.ok) {
-      const errorText = await completeUploadResponse.text();
+    // The temp object is only needed until the file has reached ACC storage
+    const expired = Date.now() - new Date(job.created_at).getTime() > TEMP_OBJECT_RETENTION_MS;
+    if (expired && !job.publish_checkpoint) {
       return new Response(
-        JSON.stringify({ 
-          error: 'Failed to complete upload',
-          details: errorText 
-        }),
-        { status: completeUploadResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'The modified file has expired from the temp bucket; save the changes again' }),
+        { status: 410, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    console.log('[REVIT-COMPLETE] Modified file uploaded to ACC storage');
-
-    // ========== STEP 11: CREATE NEW ITEM (instead of version) ==========
-    console.log('[REVIT-COMPLETE] Creating new item in ACC...');
-    
-    // Generate a modified filename
-    const originalName = itemData.data.attributes.displayName;
-    const baseName = originalName.replace(/\.rvt$/i, '');
-    const timestamp = new Date().toISOString().slice(0, 19).replace(/[:-]/g, '');
-    const newFileName = `${baseName}_modified_${timestamp}.rvt`;
-    
-    console.log('[REVIT-COMPLETE] New file name:', newFileName);
-
-    // Get parent folder ID from item data
-    const parentFolderId = itemData.data.relationships.parent.data.id;
-
-    // Create new item payload
-    const itemPayload = {
-      jsonapi: { version: '1.0' },
-      data: {
-        type: 'items',
-        attributes: {
-          displayName: newFileName,
-          extension: {
-            type: 'items:autodesk.bim360:File',
-            version: '1.0'
-          }
-        },
-        relationships: {
-          tip: {
-            data: {
-              type: 'versions',
-              id: '1'
-            }
-          },
-          parent: {
-            data: {
-              type: 'folders',
-              id: parentFolderId
-            }
-          }
-        }
-      },
-      included: [{
-        type: 'versions',
-        id: '1',
-        attributes: {
-          name: newFileName,
-          extension: {
-            type: 'versions:autodesk.bim360:File',
-            version: '1.0'
-          }
-        },
-        relationships: {
-          storage: {
-            data: {
-              type: 'objects',
-              id: newStorageId
-            }
-          }
-        }
-      }]
-    };
-
-    const newItemResponse = await fetch(
-      `https://developer.api.autodesk.com/data/v1/projects/b.${projectId}/items`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${twoLeggedToken}`,
-          'Content-Type': 'application/vnd.api+json'
-        },
-        body: JSON.stringify(itemPayload)
-      }
-    );
-
-    if (!newItemResponse.ok) {
-      const errorText = await newItemResponse.text();
+    const result = await publishJob(job as Job, ['processing', 'failed']);
+    if (!result) {
       return new Response(
-        JSON.stringify({ 
-          error: 'Failed to create new item in ACC',
-          details: errorText 
-        }),
-        { status: newItemResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'Job is already being published' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const newItem = await newItemResponse.json();
-    const newItemId = newItem.data.id;
-
-    console.log('[REVIT-COMPLETE] New item created:', newItemId);
-
     return new Response(
       JSON.stringify({
         success: true,
-        itemId: newItemId,
-        fileName: newFileName,
-        uploadedSize: modifiedFile.size,
-        message: 'File processing completed successfully. New file created in ACC.'
+        ...result,
+        message: result.createdNewVersion
+          ? 'File processing completed successfully. New version created in ACC.'
+          : 'File processing completed successfully. New file created in ACC.'
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -402,7 +120,7 @@ serve(async (req) => {
   } catch (error) {
     console.error('[REVIT-COMPLETE] Error:', error);
     return new Response(
-      JSON.stringify({ 
+      JSON.stringify({
         error: error instanceof Error ? error.message : 'Unknown error',
         timestamp: new Date().toISOString()
       }),
@@ -0,0 +1,151 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getServiceClient } from "../_shared/project-access.ts";
+import { evictStagedCopies } from "../_shared/oss-staging.ts";
+import { TEMP_OBJECT_RETENTION_MS } from "../_shared/revit-complete.ts";
+import {
+  advanceJob,
+  failJob,
+  getDesignAutomationToken,
+  getWorkItemStatus,
+  publishJob,
+  type Job,
+} from "../_shared/revit-jobs.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Safety net for the onComplete callback (revit-workitem-callback): picks up WorkItems whose callback
+// never arrived, and jobs left behind by a crashed function. Also retries publishing results whose
+// upload to ACC failed, and deletes staged copies no save has used for a while. Scheduled every
+// 2 minutes by pg_cron.
+
+// Jobs handled per run; the rest wait for the next run
+const MAX_JOBS_PER_RUN = 5;
+// Callbacks normally finish a job; only look at jobs that have been quiet this long
+const CALLBACK_GRACE_MS = 2 * 60 * 1000;
+// Design Automation gives up on a WorkItem well before this
+const WORK_ITEM_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+// An upload still running after this was cut off (function timeout or crash)
+const UPLOAD_TIMEOUT_MS = 15 * 60 * 1000;
+// revit-modify records a job, stages its input, then creates its WorkItem; one still without it after this never got one
+const WORK_ITEM_CREATE_TIMEOUT_MS = 10 * 60 * 1000;
+// Publishing attempts per job (the first one included) before it is left for the user to retry
+const MAX_PUBLISH_ATTEMPTS = 3;
+// Give a transient ACC error a moment to clear before trying again
+const PUBLISH_RETRY_DELAY_MS = 60 * 1000;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = getServiceClient();
+    const now = Date.now();
+
+    const { data: stalled, error: stalledError } = await supabase
+      .from('jobs')
+      .select('id')
+      .eq('status', 'uploading')
+      .lt('updated_at', new Date(now - UPLOAD_TIMEOUT_MS).toISOString());
+    if (stalledError) throw new Error(`Failed to load stalled jobs: ${stalledError.message}`);
+
+    for (const job of stalled || []) {
+      console.error(`[JOB-POLLER] Job ${job.id} stopped while uploading to ACC`);
+      await failJob(job.id, 'Upload to ACC did not finish');
+    }
+
+    const { data: orphaned, error: orphanedError } = await supabase
+      .from('jobs')
+      .select('id')
+      .eq('status', 'processing')
+      .is('work_item_id', null)
+      .lt('created_at', new Date(now - WORK_ITEM_CREATE_TIMEOUT_MS).toISOString());
+    if (orphanedError) throw new Error(`Failed to load orphaned jobs: ${orphanedError.message}`);
+
+    for (const job of orphaned || []) {
+      await failJob(job.id, 'Design Automation WorkItem was never created');
+    }
+
+    // Housekeeping only; jobs are still polled if it fails
+    let evicted = 0;
+    try {
+      evicted = await evictStagedCopies();
+    } catch (e) {
+      console.error('[JOB-POLLER] Failed to evict unused staged copies:', e);
+    }
+
+    // Failed after Design Automation succeeded: the result is still in the temp bucket, publish it again
+    const { data: retryable, error: retryableError } = await supabase
+      .from('jobs')
+      .select('*')
+      .eq('status', 'failed')
+      .eq('work_item_status', 'success')
+      .lt('publish_attempts', MAX_PUBLISH_ATTEMPTS)
+      .lt('completed_at', new Date(now - PUBLISH_RETRY_DELAY_MS).toISOString())
+      .gt('created_at', new Date(now - TEMP_OBJECT_RETENTION_MS).toISOString())
+      .order('completed_at', { ascending: true })
+      .limit(MAX_JOBS_PER_RUN);
+    if (retryableError) throw new Error(`Failed to load retryable jobs: ${retryableError.message}`);
+
+    const retries = await Promise.allSettled(((retryable || []) as Job[]).map((job) => {
+      console.log(`[JOB-POLLER] Retrying publish of job ${job.id} (attempt ${job.publish_attempts + 1})`);
+      return publishJob(job, ['failed']);
+    }));
+
+    retries.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`[JOB-POLLER] Job ${retryable![index].id} could not be published:`, result.reason);
+      }
+    });
+
+    // Oldest first, so a backlog drains in order
+    const { data: jobs, error } = await supabase
+      .from('jobs')
+      .select('*')
+      .eq('status', 'processing')
+      .not('work_item_id', 'is', null)
+      .lt('updated_at', new Date(now - CALLBACK_GRACE_MS).toISOString())
+      .order('updated_at', { ascending: true })
+      .limit(MAX_JOBS_PER_RUN);
+    if (error) throw new Error(`Failed to load jobs: ${error.message}`);
+
+    if (!jobs?.length) {
+      return new Response(JSON.stringify({ processed: 0, stalled: stalled?.length || 0, retried: retries.length, evicted }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const token = await getDesignAutomationToken();
+
+    const results = await Promise.allSettled((jobs as Job[]).map(async (job) => {
+      if (now - new Date(job.created_at).getTime() > WORK_ITEM_TIMEOUT_MS) {
+        await failJob(job.id, 'Design Automation job timed out');
+        return;
+      }
+
+      const workItem = await getWorkItemStatus(job.work_item_id!, token);
+      console.log(`[JOB-POLLER] Job ${job.id} WorkItem ${job.work_item_id}: ${workItem.status}`);
+      await advanceJob(job, workItem);
+    }));
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`[JOB-POLLER] Job ${jobs[index].id} could not be advanced:`, result.reason);
+      }
+    });
+
+    return new Response(JSON.stringify({ processed: jobs.length, stalled: stalled?.length || 0, retried: retries.length, evicted }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[JOB-POLLER] Error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ error: message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
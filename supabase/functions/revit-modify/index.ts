@@ -1,22 +1,48 @@
 // Enhanced error handling and logging - v2025-10-16
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { checkProjectAccess, getServiceClient, normalizeProjectId } from "../_shared/project-access.ts";
+import { buildCallbackUrl, isCallbackSigningConfigured } from "../_shared/callback-signature.ts";
+import { jobObjectKey } from "../_shared/revit-complete.ts";
+import { cancelWorkItem, failJob } from "../_shared/revit-jobs.ts";
+import { stageVersion } from "../_shared/oss-staging.ts";
+import { findLockedElements, loadEditRules } from "../_shared/edit-rules.ts";
+
+// Supabase edge runtime: keeps the function alive for work that outlasts the response
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// SECURITY: Whitelist of allowed project IDs
-const ALLOWED_PROJECT_ID = 'd27a6383-5881-4756-9cff-3deccd318427';
+interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface Rotation {
+  axis: Vector3;   // Unit vector
+  angle: number;   // Radians, right-handed about axis
+  pivot: Vector3;
+}
+
+// Positions in Revit internal feet (viewer units and global offset already removed by the frontend)
+const REVIT_UNITS = 'revit-internal-feet';
 
 interface Transform {
   dbId: number;
   uniqueId: string;  // Revit UniqueId (GUID)
   elementName: string;
-  originalPosition: { x: number; y: number; z: number };
-  newPosition: { x: number; y: number; z: number };
+  units?: string;  // REVIT_UNITS; absent from older clients, which sent raw viewer coordinates
+  originalPosition: Vector3;
+  newPosition: Vector3;
+  rotation?: Rotation;  // Applied about pivot before the translation
 }
 
+const isVector3 = (v: any): v is Vector3 =>
+  !!v && Number.isFinite(v.x) && Number.isFinite(v.y) && Number.isFinite(v.z);
+
 enum ErrorType {
   VALIDATION_ERROR = 'VALIDATION_ERROR',
   AUTH_ERROR = 'AUTH_ERROR',
@@ -63,96 +89,284 @@ function createErrorResponse(
   );
 }
 
+// Once its row exists, a job that couldn't be started is failed right away instead of waiting for
+// revit-job-poller to give up on it
+async function failUnstartedJob(jobId: string, message: string) {
+  try {
+    await failJob(jobId, message);
+  } catch (e) {
+    console.error('[JOB] Could not mark job as failed:', e instanceof Error ? e.message : String(e));
+  }
+}
+
 /**
- * Downloads a file from ACC using the correct authentication approach
- * @param userToken - User's access token (may include "Bearer " prefix)
+ * Gets a signed S3 download URL for an ACC storage object with the user's token, so Design Automation
+ * can read the original file directly (no copy in revit-transform-temp)
+ * @param userToken - User's access token
  * @param storageUrn - Storage URN from ACC (e.g., urn:adsk.objects:os.object:wip.dm.prod/uuid.rvt)
- * @returns Promise<ArrayBuffer> - The downloaded file content
+ * @returns Promise<string> - Signed URL, valid for 60 minutes (the longest OSS allows)
  */
-async function downloadFileFromACC(userToken: string, storageUrn: string): Promise<ArrayBuffer> {
-  console.log('[DOWNLOAD] Starting ACC file download');
-  console.log('[DOWNLOAD] Storage URN:', storageUrn);
-  
-  // Step 1: Strip "Bearer " prefix if present to avoid duplication
-  const cleanToken = userToken.replace(/^Bearer\s+/i, '');
-  console.log('[DOWNLOAD] Token cleaned (first 20 chars):', cleanToken.substring(0, 20) + '...');
-  
-  // Step 2: Parse storage URN to extract bucket key and object key
-  // Format: urn:adsk.objects:os.object:wip.dm.prod/09a1c38e-d203-411a-b4f4-c3824260b1c5.rvt
-  console.log('[DOWNLOAD] Parsing storage URN...');
-  
-  const urnParts = storageUrn.split(':');
-  const bucketAndObject = urnParts[urnParts.length - 1]; // Get last part: "wip.dm.prod/uuid.rvt"
+async function getSignedAccDownloadUrl(userToken: string, storageUrn: string): Promise<string> {
+  const bucketAndObject = storageUrn.split(':').pop() || '';
   const [bucketKey, ...objectKeyParts] = bucketAndObject.split('/');
-  const objectKey = objectKeyParts.join('/'); // Rejoin in case object key has slashes
-  
-  console.log('[DOWNLOAD] Parsed - Bucket:', bucketKey, 'Object:', objectKey);
-  
-  // Step 3: Get signed download URL using OSS API with user's token
-  console.log('[DOWNLOAD] Requesting signed download URL...');
-  
-  const encodedObjectKey = encodeURIComponent(objectKey);
-  const signedUrlEndpoint = `https://developer.api.autodesk.com/oss/v2/buckets/${bucketKey}/objects/${encodedObjectKey}/signeds3download`;
-  
-  console.log('[DOWNLOAD] Signed URL endpoint:', signedUrlEndpoint);
-  console.log('[DOWNLOAD] Using USER token for signed URL request');
-  
-  let signedUrlResponse;
-  try {
-    signedUrlResponse = await fetch(signedUrlEndpoint, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${cleanToken}`, // Use user's token
-      }
-    });
-  } catch (e) {
-    console.error('[DOWNLOAD] Network error getting signed URL:', e);
-    throw new Error(`Network error while getting signed download URL: ${e instanceof Error ? e.message : String(e)}`);
-  }
-  
+  const objectKey = objectKeyParts.join('/');
+  console.log('[DIRECT] Parsed - Bucket:', bucketKey, 'Object:', objectKey);
+
+  const signedUrlResponse = await fetch(
+    `https://developer.api.autodesk.com/oss/v2/buckets/${bucketKey}/objects/${encodeURIComponent(objectKey)}/signeds3download?minutesExpiration=60`,
+    { method: 'GET', headers: { 'Authorization': `Bearer ${userToken}` } }
+  );
+
   if (!signedUrlResponse.ok) {
     const errorText = await signedUrlResponse.text();
-    console.error('[DOWNLOAD] Failed to get signed URL. Status:', signedUrlResponse.status);
-    console.error('[DOWNLOAD] Error response:', errorText);
     throw new Error(`Failed to get signed download URL (${signedUrlResponse.status}): ${errorText}`);
   }
-  
+
   const signedUrlData = await signedUrlResponse.json();
-  const downloadUrl = signedUrlData.url;
-  
-  if (!downloadUrl) {
-    console.error('[DOWNLOAD] No URL in response:', signedUrlData);
+  if (!signedUrlData.url) {
     throw new Error('No download URL in signed URL response');
   }
-  
-  console.log('[DOWNLOAD] ✓ Signed download URL obtained');
-  console.log('[DOWNLOAD] Signed URL (first 50 chars):', downloadUrl.substring(0, 50) + '...');
-  
-  // Step 4: Download the file using the signed URL (no auth header needed)
-  console.log('[DOWNLOAD] Downloading file content from signed URL...');
-  
-  let fileResponse;
-  try {
-    fileResponse = await fetch(downloadUrl, {
-      method: 'GET',
-      // No Authorization header needed for signed S3 URL
-    });
-  } catch (e) {
-    console.error('[DOWNLOAD] Network error downloading file:', e);
-    throw new Error(`Network error while downloading file: ${e instanceof Error ? e.message : String(e)}`);
+  return signedUrlData.url;
+}
+
+/**
+ * Looks up the storage object of an ACC file version (with the user's token)
+ */
+async function getVersionStorageUrn(userToken: string, projectId: string, versionId: string): Promise<string> {
+  const versionResponse = await fetch(
+    `https://developer.api.autodesk.com/data/v1/projects/b.${projectId}/versions/${encodeURIComponent(versionId)}`,
+    { headers: { 'Authorization': `Bearer ${userToken}` } }
+  );
+  if (!versionResponse.ok) {
+    const errorText = await versionResponse.text();
+    throw new Error(`Failed to fetch version from ACC (${versionResponse.status}): ${errorText}`);
   }
-  
-  if (!fileResponse.ok) {
-    const errorText = await fileResponse.text();
-    console.error('[DOWNLOAD] Failed to download file. Status:', fileResponse.status);
-    console.error('[DOWNLOAD] Error response:', errorText);
-    throw new Error(`Failed to download file from signed URL (${fileResponse.status}): ${errorText}`);
+
+  const versionData = await versionResponse.json();
+  const storageUrn = versionData.data?.relationships?.storage?.data?.id;
+  if (!storageUrn) {
+    throw new Error(`Version ${versionId} has no storage object`);
   }
-  
-  const fileBuffer = await fileResponse.arrayBuffer();
-  console.log('[DOWNLOAD] ✓ File downloaded successfully. Size:', fileBuffer.byteLength, 'bytes');
-  
-  return fileBuffer;
+  return storageUrn;
+}
+
+// A freshly staged copy can take a moment to become readable
+const STAGED_COPY_URL_ATTEMPTS = 5;
+const STAGED_COPY_URL_RETRY_DELAY_MS = 3000;
+
+/**
+ * Gets a signed S3 download URL for a staged copy (regular app token: the regular app owns the
+ * staging bucket), retrying while the object isn't found yet
+ */
+async function getSignedStagedCopyUrl(bucketKey: string, objectKey: string, appToken: string): Promise<string> {
+  const url = `https://developer.api.autodesk.com/oss/v2/buckets/${bucketKey}/objects/${encodeURIComponent(objectKey)}/signeds3download?minutesExpiration=60`;
+
+  for (let attempt = 1; ; attempt++) {
+    const response = await fetch(url, { headers: { 'Authorization': `Bearer ${appToken}` } });
+    if (response.ok) {
+      const signedUrlData = await response.json();
+      if (!signedUrlData.url) {
+        throw new Error('No signed URL in OSS response');
+      }
+      return signedUrlData.url;
+    }
+
+    const errorText = await response.text();
+    if (response.status !== 404 || attempt >= STAGED_COPY_URL_ATTEMPTS) {
+      throw new Error(`Failed to get OSS signed download URL for ${bucketKey}/${objectKey} (${response.status}): ${errorText}`);
+    }
+    console.log(`[STEP 2] ⏳ Staged copy not found on attempt ${attempt}, retrying in ${STAGED_COPY_URL_RETRY_DELAY_MS}ms...`);
+    await new Promise((resolve) => setTimeout(resolve, STAGED_COPY_URL_RETRY_DELAY_MS));
+  }
+}
+
+// Like the input URLs, this one can run out while the WorkItem waits in the queue; the job's error
+// says so when that is the likely cause (see revit-jobs.ts)
+const OUTPUT_URL_MINUTES = 30;
+
+/**
+ * Gets the signed URL the WorkItem writes its output to (the SSA app owns the output bucket)
+ */
+async function getSignedOutputUrl(bucketKey: string, objectKey: string, ssaToken: string): Promise<string> {
+  const response = await fetch(
+    `https://developer.api.autodesk.com/oss/v2/buckets/${bucketKey}/objects/${encodeURIComponent(objectKey)}/signed?access=readwrite`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${ssaToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ minutesExpiration: OUTPUT_URL_MINUTES })
+    }
+  );
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to get signed output URL (${response.status}): ${errorText}`);
+  }
+
+  const outputSignedData = await response.json();
+  if (!outputSignedData.signedUrl) {
+    throw new Error('No signed URL in output response');
+  }
+  return outputSignedData.signedUrl;
+}
+
+/**
+ * Creates the Design Automation WorkItem and returns its ID
+ */
+async function createWorkItem(payload: Record<string, unknown>, appToken: string): Promise<string> {
+  const response = await fetch('https://developer.api.autodesk.com/da/us-east/v3/workitems', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${appToken}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(payload)
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    // An unknown Activity or AppBundle means the Design Automation setup is incomplete
+    if (/activity|appbundle/i.test(errorText)) {
+      throw new Error(`Design Automation Activity or AppBundle not found or misconfigured (${payload.activityId}): ${errorText}`);
+    }
+    throw new Error(`Failed to create Design Automation WorkItem (${response.status}): ${errorText}`);
+  }
+
+  const workItem = await response.json();
+  if (!workItem.id) {
+    throw new Error('No WorkItem ID in response');
+  }
+  return workItem.id;
+}
+
+// What the request settled before answering; the rest of the job is started from it
+interface JobStart {
+  jobId: string;
+  inputMode: 'oss' | 'direct';
+  userToken: string;
+  appToken: string;   // Regular app: Design Automation and the staging bucket
+  ssaToken: string;   // SSA app: the output bucket
+  projectId: string;
+  sourceVersionId: string;
+  bucketKey: string;
+  outputObjectKey: string;
+  transformsUrl: string;
+  activityId: string;
+}
+
+/**
+ * Runs a recorded job up to its WorkItem: gets Design Automation's input (staging the version in OSS,
+ * or a signed URL for the ACC file in direct mode), then creates the WorkItem and links it to the job.
+ * Throws when the job can't be started; a job cancelled in the meantime gets no WorkItem.
+ */
+async function startJob(job: JobStart): Promise<void> {
+  const supabase = getServiceClient();
+
+  // ========== STEP 2: GET THE INPUT FILE ==========
+  let downloadUrl: string;
+  if (job.inputMode === 'direct') {
+    // DA downloads the original itself; the URL has to be used within 60 minutes of queueing
+    console.log('[STEP 2] Direct input from ACC version:', job.sourceVersionId);
+    const storageUrn = await getVersionStorageUrn(job.userToken, job.projectId, job.sourceVersionId);
+    downloadUrl = await getSignedAccDownloadUrl(job.userToken, storageUrn);
+  } else {
+    // Staged once per version; later saves of the same version reuse the copy
+    console.log('[STEP 2] Staging ACC version in OSS:', job.sourceVersionId);
+    const staged = await stageVersion(job.userToken, job.appToken, job.projectId, job.sourceVersionId);
+    console.log('[STEP 2] ✓', staged.reused ? 'Reusing staged copy' : 'Staged', `${staged.bucketKey}/${staged.objectKey}`, `(${staged.size} bytes)`);
+    downloadUrl = await getSignedStagedCopyUrl(staged.bucketKey, staged.objectKey, job.appToken);
+  }
+  console.log('[STEP 2] ✓ Input signed URL ready');
+
+  // Only a job still running moves on; one cancelled while staging gets no WorkItem
+  const { data: queued, error: queueError } = await supabase
+    .from('jobs')
+    .update({ stage: 'queued', updated_at: new Date().toISOString() })
+    .eq('id', job.jobId)
+    .eq('status', 'processing')
+    .select('id');
+  if (queueError) throw new Error(`Failed to update job ${job.jobId}: ${queueError.message}`);
+  if (!queued?.length) {
+    console.log('[STEP 2] Job', job.jobId, 'is no longer running; no WorkItem created');
+    return;
+  }
+
+  // ========== STEP 5: GET OUTPUT FILE SIGNED URL ==========
+  const outputSignedUrl = await getSignedOutputUrl(job.bucketKey, job.outputObjectKey, job.ssaToken);
+  console.log('[STEP 5] ✓ Output signed URL ready');
+
+  // Without a callback secret, revit-job-poller still picks the result up
+  let onCompleteUrl: string | null = null;
+  if (isCallbackSigningConfigured()) {
+    onCompleteUrl = await buildCallbackUrl(job.jobId);
+  } else {
+    console.warn('[STEP 5] ⚠️ DA_CALLBACK_SECRET not configured - relying on revit-job-poller');
+  }
+
+  // ========== STEP 6: CREATE WORKITEM ==========
+  console.log('[STEP 6] Creating Design Automation WorkItem...');
+
+  const workItemPayload = {
+    activityId: job.activityId,
+    arguments: {
+      inputFile: {
+        url: downloadUrl,
+        verb: 'get',
+        localName: 'input.rvt'
+      },
+      transforms: {
+        url: job.transformsUrl,
+        verb: 'get',
+        localName: 'transforms.json'
+      },
+      outputFile: {
+        url: outputSignedUrl,
+        verb: 'put',
+        localName: 'output.rvt',
+        headers: {
+          'Content-Type': 'application/octet-stream'
+        }
+      },
+      adskDebug: {
+        uploadJobFolder: true
+      },
+      ...(onCompleteUrl ? { onComplete: { verb: 'post', url: onCompleteUrl } } : {})
+    }
+  };
+
+  console.log('[STEP 6] WorkItem payload:', {
+    activityId: job.activityId,
+    inputMode: job.inputMode,
+    hasOnComplete: !!onCompleteUrl
+  });
+
+  const workItemId = await createWorkItem(workItemPayload, job.appToken);
+  console.log('[STEP 6] ✓ WorkItem created:', workItemId);
+
+  // ========== STEP 7: LINK THE WORKITEM TO THE JOB ==========
+  const { data: linked, error: linkError } = await supabase
+    .from('jobs')
+    // Status is left to the callback, which can already have arrived for a WorkItem that failed at once
+    .update({ work_item_id: workItemId })
+    .eq('id', job.jobId)
+    .eq('status', 'processing')
+    .select('id');
+
+  if (linkError || !linked?.length) {
+    // Unlinked, the WorkItem can't be followed by the poller; stop it rather than leave it running
+    await cancelWorkItem(workItemId, job.appToken).catch((e) =>
+      console.warn('[STEP 7] ⚠️ Could not cancel unlinked WorkItem:', e instanceof Error ? e.message : String(e))
+    );
+    if (linkError) {
+      throw new Error(`WorkItem ${workItemId} was created but could not be linked to its job: ${linkError.message}`);
+    }
+    // Cancelled (or already failed) while the WorkItem was being created
+    console.log('[STEP 7] Job', job.jobId, 'is no longer running; WorkItem', workItemId, 'cancelled');
+    return;
+  }
+
+  console.log('[STEP 7] ✓ Job', job.jobId, 'follows WorkItem', workItemId);
 }
 
 serve(async (req) => {
@@ -202,7 +416,11 @@ serve(async (req) => {
       );
     }
 
-    const { token, projectId, itemId, folderUrn, transforms, ossBucket, ossObject } = requestBody;
+    // createNewVersion (default) adds a version to the existing item; false creates a separate "_modified_" item.
+    // inputMode 'oss' (default) reads a copy in the staging bucket, made by the job on the first save of a
+    // version; 'direct' lets Design Automation read the ACC file through a signed URL.
+    const { token, projectId, hubId, itemId, versionUrn, folderUrn, transforms, createNewVersion = true } = requestBody;
+    const inputMode: string = requestBody.inputMode || 'oss';
     
     // Use token from body, or fallback to headers
     const effectiveToken = token || customAuthHeader || authHeader?.replace('Bearer ', '');
@@ -216,9 +434,7 @@ serve(async (req) => {
       hasTransforms: !!transforms,
       transformsType: typeof transforms,
       transformsKeys: transforms ? Object.keys(transforms) : [],
-      hasOssCoordinates: !!(ossBucket && ossObject),
-      ossBucket: ossBucket || 'NOT PROVIDED',
-      ossObject: ossObject || 'NOT PROVIDED',
+      inputMode,
       allFieldNames: Object.keys(requestBody)
     });
     
@@ -253,19 +469,31 @@ serve(async (req) => {
       );
     }
 
-    // SECURITY: Validate project ID against whitelist
-    const cleanProjectId = projectId.replace('b.', '');
-    if (cleanProjectId !== ALLOWED_PROJECT_ID) {
-      console.error(`[SECURITY] Access denied: Project ${cleanProjectId} not in whitelist (allowed: ${ALLOWED_PROJECT_ID})`);
+    // SECURITY: Validate project ID against the allowlist
+    const cleanProjectId = normalizeProjectId(projectId);
+    let projectAccess;
+    try {
+      projectAccess = await checkProjectAccess(effectiveToken, cleanProjectId, hubId);
+    } catch (e) {
+      return createErrorResponse(
+        ErrorType.API_ERROR,
+        'Failed to check project allowlist',
+        'Security Validation',
+        500,
+        { error: e instanceof Error ? e.message : String(e) }
+      );
+    }
+    if (!projectAccess.allowed) {
+      console.error(`[SECURITY] Access denied: Project ${cleanProjectId} not in allowlist`);
       return createErrorResponse(
         ErrorType.AUTH_ERROR,
-        `Access denied: This project is not authorized. Only project ${ALLOWED_PROJECT_ID} is allowed.`,
+        'Access denied: This project is not authorized.',
         'Security Validation',
         403,
-        { requestedProject: cleanProjectId, allowedProject: ALLOWED_PROJECT_ID }
+        { requestedProject: cleanProjectId }
       );
     }
-    console.log(`[SECURITY] ✅ Project ${cleanProjectId} validated against whitelist`);
+    console.log(`[SECURITY] ✅ Project ${cleanProjectId} validated against allowlist`);
 
     if (!itemId) {
       return createErrorResponse(
@@ -289,20 +517,16 @@ serve(async (req) => {
 
     const transformKeys = Object.keys(transforms);
     
-    // Validate OSS coordinates are provided (required to avoid memory limits)
-    if (!ossBucket || !ossObject) {
+    if (inputMode !== 'oss' && inputMode !== 'direct') {
       return createErrorResponse(
         ErrorType.VALIDATION_ERROR,
-        'Missing OSS coordinates (ossBucket and ossObject). Please use the "SSA Re-upload" button first to upload the file to an OSS bucket. This avoids memory limits when processing large files.',
+        `Invalid inputMode "${inputMode}" (expected "oss" or "direct")`,
         'Input Validation',
         400,
-        { 
-          hint: 'Click the "SSA Re-upload" button in the UI before saving transformations',
-          requiredFields: ['ossBucket', 'ossObject'],
-          received: { ossBucket: ossBucket || 'MISSING', ossObject: ossObject || 'MISSING' }
-        }
+        { inputMode }
       );
     }
+
     if (transformKeys.length === 0) {
       return createErrorResponse(
         ErrorType.VALIDATION_ERROR,
@@ -327,6 +551,44 @@ serve(async (req) => {
           { elementId, transform: t }
         );
       }
+
+      // The edit rules are checked against the viewer element the change was made on
+      if (!Number.isInteger(t.dbId)) {
+        return createErrorResponse(
+          ErrorType.VALIDATION_ERROR,
+          `Missing or invalid dbId for element ${elementId}.`,
+          'Input Validation',
+          400,
+          { elementId, dbId: t.dbId }
+        );
+      }
+
+      if (t.units !== undefined && t.units !== REVIT_UNITS) {
+        return createErrorResponse(
+          ErrorType.VALIDATION_ERROR,
+          `Unsupported units "${t.units}" for element ${elementId}. Positions must be in ${REVIT_UNITS}.`,
+          'Input Validation',
+          400,
+          { elementId, units: t.units }
+        );
+      }
+      if (t.units === undefined) {
+        console.warn(`[VALIDATION] Element ${elementId} has no units marker - treating positions as feet without a global offset`);
+      }
+
+      if (t.rotation !== undefined && t.rotation !== null) {
+        const r = t.rotation;
+        if (!isVector3(r.axis) || !isVector3(r.pivot) || !Number.isFinite(r.angle) ||
+            Math.hypot(r.axis.x, r.axis.y, r.axis.z) < 1e-9) {
+          return createErrorResponse(
+            ErrorType.VALIDATION_ERROR,
+            `Invalid rotation for element ${elementId}. Must include a non-zero axis {x,y,z}, a numeric angle (radians) and a pivot {x,y,z}.`,
+            'Input Validation',
+            400,
+            { elementId, rotation: r }
+          );
+        }
+      }
     }
 
     console.log('[VALIDATED] All inputs valid, proceeding with workflow');
@@ -492,113 +754,42 @@ serve(async (req) => {
 
     const tipVersionId = itemData.data.relationships.tip.data.id;
     console.log('[STEP 1] ✓ Item fetched, tip version:', tipVersionId);
+    if (versionUrn && versionUrn !== tipVersionId) {
+      console.warn('[STEP 1] ⚠️ Edits were made on an older version:', versionUrn);
+    }
 
-    // ========== STEP 2: GET SIGNED DOWNLOAD URL FROM OSS (using provided coordinates) ==========
-    console.log('[REVIT-MODIFY] Downloading file from OSS...');
-    console.log('[REVIT-MODIFY]   - Bucket: revit-transform-temp');
-    console.log('[REVIT-MODIFY]   - Object:', ossObject);
-    
-    // CRITICAL: Use Regular token for revit-transform-temp bucket
-    const tokenToUse = twoLeggedToken; // Force regular token for OSS bucket
-    console.log('[REVIT-MODIFY] ✅ Using REGULAR token for download');
-    console.log('[REVIT-MODIFY]   - Token preview:', tokenToUse.substring(0, 30) + '...');
-    
-    // URL encode the object name to handle special characters like .rvt
-    const encodedOssObject = encodeURIComponent(ossObject);
-    const ossDownloadUrl = `https://developer.api.autodesk.com/oss/v2/buckets/${ossBucket}/objects/${encodedOssObject}/signeds3download?minutesExpiration=60`;
-    console.log('[REVIT-MODIFY] Full download URL:', ossDownloadUrl);
-    
-    // Retry logic for eventual consistency
-    const maxRetries = 5;
-    const retryDelay = 3000; // 3 seconds
-    let ossSignedData = null;
-    let lastError = null;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      console.log(`[REVIT-MODIFY] Download attempt ${attempt}/${maxRetries}...`);
-      
-      try {
-        const ossSignedUrlResponse = await fetch(ossDownloadUrl, {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${tokenToUse}`,
-            'Content-Type': 'application/json'
-          }
-        });
-
-        console.log(`[REVIT-MODIFY] Attempt ${attempt} response status:`, ossSignedUrlResponse.status);
-
-        if (ossSignedUrlResponse.ok) {
-          ossSignedData = await ossSignedUrlResponse.json();
-          console.log(`[REVIT-MODIFY] ✅ Success on attempt ${attempt}!`);
-          break;
-        }
-
-        // If 404 and not last attempt, retry
-        if (ossSignedUrlResponse.status === 404 && attempt < maxRetries) {
-          const errorText = await ossSignedUrlResponse.text();
-          console.log(`[REVIT-MODIFY] ⏳ 404 on attempt ${attempt}, retrying in ${retryDelay}ms...`);
-          console.log(`[REVIT-MODIFY]    Error: ${errorText}`);
-          lastError = errorText;
-          await new Promise(resolve => setTimeout(resolve, retryDelay));
-          continue;
-        }
-
-        // Non-404 error or last attempt
-        const errorText = await ossSignedUrlResponse.text();
-        console.error('[REVIT-MODIFY] ❌ Failed to get signed download URL');
-        console.error('[REVIT-MODIFY]   - Status:', ossSignedUrlResponse.status);
-        console.error('[REVIT-MODIFY]   - Error:', errorText);
-        console.error('[REVIT-MODIFY]   - Token used: REGULAR');
-        
+    // ========== STEP 1.5: CHECK THE PROJECT'S EDIT RULES ==========
+    // The viewer refuses to select locked elements; the same rules are enforced here
+    try {
+      const editRules = await loadEditRules(cleanProjectId);
+      const locks = await findLockedElements(
+        effectiveToken,
+        versionUrn || tipVersionId,
+        Object.entries(transforms as Record<string, Transform>).map(([uniqueId, t]) => ({ dbId: t.dbId, uniqueId })),
+        editRules
+      );
+      if (locks.length > 0) {
+        console.error('[STEP 1.5] Locked elements in request:', locks);
         return createErrorResponse(
-          ErrorType.API_ERROR,
-          'Failed to get OSS signed download URL',
-          'OSS Signed URL',
-          ossSignedUrlResponse.status,
-          { response: errorText, bucket: ossBucket, object: ossObject, url: ossDownloadUrl, attempt }
+          ErrorType.AUTH_ERROR,
+          `${locks.length} element(s) can't be moved: ${locks.map((lock) => `${lock.name} (${lock.reason})`).join(', ')}`,
+          'Edit Rules',
+          403,
+          { locks }
         );
-
-      } catch (error) {
-        if (attempt === maxRetries) {
-          console.error('[REVIT-MODIFY] ❌ All retry attempts failed');
-          return createErrorResponse(
-            ErrorType.API_ERROR,
-            `Failed after ${maxRetries} attempts. Last error: ${error instanceof Error ? error.message : String(error)}`,
-            'OSS Signed URL',
-            500,
-            { error: error instanceof Error ? error.message : String(error), url: ossDownloadUrl }
-          );
-        }
-        console.log(`[REVIT-MODIFY] ⚠️ Error on attempt ${attempt}:`, error instanceof Error ? error.message : String(error));
-        lastError = error instanceof Error ? error.message : String(error);
-        await new Promise(resolve => setTimeout(resolve, retryDelay));
       }
-    }
-
-    if (!ossSignedData) {
-      return createErrorResponse(
-        ErrorType.API_ERROR,
-        `Failed after ${maxRetries} attempts. Last error: ${lastError}`,
-        'OSS Signed URL',
-        500,
-        { lastError, url: ossDownloadUrl }
-      );
-    }
-
-    const downloadUrl = ossSignedData.url;
-
-    if (!downloadUrl) {
+      console.log(`[STEP 1.5] ✓ ${transformKeys.length} element(s) checked against ${editRules.length} edit rule(s)`);
+    } catch (e) {
       return createErrorResponse(
         ErrorType.API_ERROR,
-        'No signed URL in OSS response',
-        'OSS Signed URL',
-        500,
-        { ossSignedData }
+        'Failed to check elements against the edit rules',
+        'Edit Rules',
+        502,
+        { error: e instanceof Error ? e.message : String(e) }
       );
     }
 
-    console.log('[REVIT-MODIFY] ✅ Got signed download URL, downloading file...');
+    const sourceVersionId = versionUrn || tipVersionId;
 
     // ========== STEP 3.5: CREATE OR USE OUTPUT BUCKET ==========
     console.log('[STEP 3.5] Creating/verifying output bucket...');
@@ -652,61 +843,9 @@ serve(async (req) => {
 
     console.log('[STEP 4] ✓ Design Automation configuration ready');
 
-    // ========== STEP 5: GET OUTPUT FILE SIGNED URL ==========
-    console.log('[STEP 5] Getting signed URL for output file...');
-    const outputObjectKey = 'output.rvt';
-    const minutesExpiration = 30;
-    
-    let outputSignedResponse;
-    try {
-      outputSignedResponse = await fetch(
-        `https://developer.api.autodesk.com/oss/v2/buckets/${bucketKeyTemp}/objects/${outputObjectKey}/signed?access=readwrite`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${ssaToken}`, // SSA app owns temp bucket
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            minutesExpiration: minutesExpiration
-          })
-        }
-      );
-    } catch (e) {
-      return createErrorResponse(
-        ErrorType.API_ERROR,
-        'Network error while getting signed output URL',
-        'Get Output URL',
-        500,
-        { error: e instanceof Error ? e.message : String(e) }
-      );
-    }
-
-    if (!outputSignedResponse.ok) {
-      const errorText = await outputSignedResponse.text();
-      return createErrorResponse(
-        ErrorType.API_ERROR,
-        'Failed to get signed output URL',
-        'Get Output URL',
-        outputSignedResponse.status,
-        { response: errorText }
-      );
-    }
-    
-    const outputSignedData = await outputSignedResponse.json();
-    const outputSignedUrl = outputSignedData.signedUrl;
-    
-    if (!outputSignedUrl) {
-      return createErrorResponse(
-        ErrorType.API_ERROR,
-        'No signed URL in output response',
-        'Get Output URL',
-        500,
-        { outputSignedData }
-      );
-    }
-
-    console.log('[STEP 5] ✓ Output bucket and signed URL ready');
+    // The job's ID namespaces everything it writes to the shared output bucket
+    const jobId = crypto.randomUUID();
+    const outputObjectKey = jobObjectKey(jobId, 'output.rvt');
 
     // ========== STEP 5.5: UPLOAD TRANSFORMS.JSON TO OSS ==========
     console.log('[STEP 5.5] Uploading transforms.json to OSS...');
@@ -722,7 +861,7 @@ serve(async (req) => {
     
     // Convert transforms object to dictionary format expected by C# plugin (keyed by uniqueId)
     const transformsDict: Record<string, any> = {};
-    Object.entries(transforms).forEach(([uniqueId, transformData]: [string, any]) => {
+    Object.entries(transforms as Record<string, Transform>).forEach(([uniqueId, transformData]) => {
       const revitElementId = extractRevitElementId(uniqueId);
       
       console.log(`[TRANSFORM] ${transformData.elementName}: uniqueId=${uniqueId} → elementId=${revitElementId}`);
@@ -731,6 +870,7 @@ serve(async (req) => {
         elementId: revitElementId,          // ✅ Use actual Revit Element ID (not Viewer dbId)
         uniqueId: uniqueId,                 // ✅ Also send uniqueId for reference
         elementName: transformData.elementName,
+        units: transformData.units ?? 'viewer',  // the plugin only trusts the rotation pivot in REVIT_UNITS
         originalPosition: {
           x: transformData.originalPosition.x,
           y: transformData.originalPosition.y,
@@ -747,11 +887,22 @@ serve(async (req) => {
           z: transformData.newPosition.z - transformData.originalPosition.z
         }
       };
+
+      if (transformData.rotation) {
+        const { axis, angle, pivot } = transformData.rotation;
+        const axisLength = Math.hypot(axis.x, axis.y, axis.z);
+        transformsDict[uniqueId].rotation = {
+          axis: { x: axis.x / axisLength, y: axis.y / axisLength, z: axis.z / axisLength },
+          angle,
+          pivot: { x: pivot.x, y: pivot.y, z: pivot.z }
+        };
+        console.log(`[TRANSFORM] ${transformData.elementName}: rotation ${(angle * 180 / Math.PI).toFixed(2)}° about (${axis.x}, ${axis.y}, ${axis.z})`);
+      }
     });
     
     const transformsJson = JSON.stringify({ transforms: transformsDict });
     console.log(`[STEP 5.5] Converted ${Object.keys(transformsDict).length} transform(s) to C# format`);
-    const transformsKey = `transforms_${Date.now()}.json`;
+    const transformsKey = jobObjectKey(jobId, 'transforms.json');
 
     // Use batch signed S3 upload API
     let batchUploadResponse;
@@ -883,7 +1034,7 @@ serve(async (req) => {
     let transformsSignedResponse;
     try {
       transformsSignedResponse = await fetch(
-        `https://developer.api.autodesk.com/oss/v2/buckets/${bucketKeyTemp}/objects/${transformsKey}/signeds3download?minutesExpiration=60`,
+        `https://developer.api.autodesk.com/oss/v2/buckets/${bucketKeyTemp}/objects/${encodeURIComponent(transformsKey)}/signeds3download?minutesExpiration=60`,
         {
           method: 'GET',
           headers: {
@@ -928,128 +1079,69 @@ serve(async (req) => {
 
     console.log('[STEP 5.5] ✓ Transforms signed URL ready');
 
-    // ========== STEP 6: CREATE WORKITEM ==========
-    console.log('[STEP 6] Creating Design Automation WorkItem...');
-
-    const workItemPayload = {
-      activityId: activityAlias,
-      arguments: {
-        inputFile: {
-          url: downloadUrl,
-          verb: 'get',
-          localName: 'input.rvt'
-        },
-        transforms: {
-          url: transformsUrl,
-          verb: 'get',
-          localName: 'transforms.json'
-        },
-        outputFile: {
-          url: outputSignedUrl,
-          verb: 'put',
-          localName: 'output.rvt',
-          headers: {
-            'Content-Type': 'application/octet-stream'
-          }
-        },
-        adskDebug: {
-          uploadJobFolder: true
-        }
-      }
-    };
-
-    console.log('[STEP 6] WorkItem payload:', {
-      activityId: activityAlias,
-      transformCount: transforms.length,
-      hasInputUrl: !!downloadUrl,
-      hasOutputUrl: !!outputSignedUrl
-    });
-
-    let workItemResponse;
-    try {
-      workItemResponse = await fetch(
-        'https://developer.api.autodesk.com/da/us-east/v3/workitems',
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${twoLeggedToken}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify(workItemPayload)
-        }
-      );
-    } catch (e) {
-      return createErrorResponse(
-        ErrorType.API_ERROR,
-        'Network error while creating WorkItem',
-        'Create WorkItem',
-        500,
-        { error: e instanceof Error ? e.message : String(e) }
-      );
-    }
-
-    if (!workItemResponse.ok) {
-      const errorData = await workItemResponse.json();
-      
-      // Check if it's an Activity/AppBundle setup issue
-      if (errorData.errors) {
-        const errorMessages = errorData.errors.map((e: any) => e.title || e.detail).join(', ');
-        
-        if (errorMessages.includes('activity') || errorMessages.includes('appbundle')) {
-          return createErrorResponse(
-            ErrorType.API_ERROR,
-            'Design Automation Activity or AppBundle not found or misconfigured',
-            'Create WorkItem',
-            workItemResponse.status,
-            {
-              activityUsed: activityAlias,
-              appBundleExpected: appBundleAlias,
-              errors: errorData.errors,
-              suggestion: 'Verify Activity v3 exists and is properly configured with the AppBundle'
-            }
-          );
-        }
-      }
-      
-      return createErrorResponse(
-        ErrorType.API_ERROR,
-        'Failed to create Design Automation WorkItem',
-        'Create WorkItem',
-        workItemResponse.status,
-        { 
-          errorData,
-          activityUsed: activityAlias
-        }
-      );
-    }
+    // ========== STEP 5.9: RECORD THE JOB ==========
+    // Recorded before its input is staged and its WorkItem exists: the viewer follows the job from here,
+    // and the WorkItem's onComplete callback always finds it. The job finishes server-side, with or
+    // without the browser.
+    const { error: jobError } = await getServiceClient()
+      .from('jobs')
+      .insert({
+        id: jobId,
+        autodesk_user_id: projectAccess.autodeskUserId,
+        project_id: cleanProjectId,
+        item_id: itemId,
+        version_urn: versionUrn || null,
+        folder_urn: folderUrn || null,
+        bucket_key: bucketKeyTemp,
+        output_object_key: outputObjectKey,
+        create_new_version: createNewVersion !== false,
+        transform_count: transformKeys.length,
+        stage: inputMode === 'oss' ? 'staging' : 'queued'
+      });
 
-    const workItem = await workItemResponse.json();
-    const workItemId = workItem.id;
-    
-    if (!workItemId) {
+    if (jobError) {
       return createErrorResponse(
         ErrorType.API_ERROR,
-        'No WorkItem ID in response',
-        'Create WorkItem',
+        'Failed to record the job',
+        'Record Job',
         500,
-        { workItem }
+        { error: jobError.message }
       );
     }
 
-    console.log('[STEP 6] ✓ WorkItem created:', workItemId);
-    console.log('[STEP 6] Returning immediately with WorkItem ID for client-side polling');
+    console.log('[STEP 5.9] ✓ Job recorded:', jobId);
+
+    // ========== STEPS 2-7: STAGE THE INPUT AND CREATE THE WORKITEM, AS PART OF THE JOB ==========
+    // Staging a large model takes minutes; answer now and let the job fail if it can't be started
+    EdgeRuntime.waitUntil(
+      startJob({
+        jobId,
+        inputMode,
+        userToken: effectiveToken,
+        appToken: twoLeggedToken,
+        ssaToken,
+        projectId: cleanProjectId,
+        sourceVersionId,
+        bucketKey: bucketKeyTemp,
+        outputObjectKey,
+        transformsUrl,
+        activityId: activityAlias,
+      }).catch(async (e) => {
+        const message = e instanceof Error ? e.message : String(e);
+        console.error(`[REVIT-MODIFY] Job ${jobId} could not be started:`, message);
+        await failUnstartedJob(jobId, message);
+      })
+    );
 
     const elapsed = Date.now() - startTime;
 
     // Return immediately with 202 Accepted
     return new Response(
       JSON.stringify({
-        workItemId,
-        bucketKeyTemp,
-        outputObjectKey,
-        twoLeggedToken,  // Pass token back to frontend for status polling
-        status: 'pending',
-        message: 'WorkItem created successfully. Poll /revit-status for updates.',
+        jobId,
+        inputMode,
+        status: 'processing',
+        message: 'Job recorded. Follow the job for updates.',
         elapsedMs: elapsed
       }),
       {
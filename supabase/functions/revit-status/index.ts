@@ -1,5 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import JSZip from "https://esm.sh/jszip@3.10.1";
+import { checkProjectAccess, getServiceClient } from "../_shared/project-access.ts";
+import { advanceJob, isJobOwner, type Job } from "../_shared/revit-jobs.ts";
+
+// Supabase edge runtime: keeps the function alive for work that outlasts the response
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,7 +19,57 @@ serve(async (req) => {
   console.log('[REVIT-STATUS] Request received at', new Date().toISOString());
 
   try {
-    const { workItemId, cachedToken } = await req.json();
+    const body = await req.json();
+    const { jobId, token: userToken, cachedToken } = body;
+    let workItemId: string | undefined = body.workItemId;
+    let job: Job | null = null;
+
+    // Progress check for a save job: the WorkItem is the job's own, and the job is moved on from its
+    // status as the callback would (the viewer's progress panel follows it over Realtime). Only the
+    // job's owner may ask.
+    if (jobId) {
+      if (!userToken) {
+        return new Response(
+          JSON.stringify({ error: 'Missing required parameters', required: ['token', 'jobId'] }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data, error } = await getServiceClient()
+        .from('jobs')
+        .select('*')
+        .eq('id', jobId)
+        .maybeSingle();
+      if (error) throw new Error(`Failed to load job: ${error.message}`);
+
+      if (!data) {
+        return new Response(
+          JSON.stringify({ error: 'Job not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // SECURITY: Validate the job's project against the allowlist
+      const { allowed, autodeskUserId } = await checkProjectAccess(userToken, data.project_id);
+      if (!allowed) {
+        console.error(`Access denied: Project ${data.project_id} not in allowlist`);
+        return new Response(
+          JSON.stringify({ error: 'Access denied: This project is not authorized' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (!isJobOwner(data, autodeskUserId)) {
+        console.error(`Access denied: Job ${jobId} was not started by user ${autodeskUserId || 'unknown'}`);
+        return new Response(
+          JSON.stringify({ error: 'Access denied: This job belongs to another user' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      job = data;
+      workItemId = job.work_item_id ?? undefined;
+    }
 
     if (!workItemId) {
       return new Response(
@@ -88,6 +143,21 @@ serve(async (req) => {
 
     console.log('[REVIT-STATUS] WorkItem status:', status);
 
+    if (job) {
+      // Only a change is written, so repeated checks don't keep the job too recent for the poller;
+      // a finished WorkItem is published (or failed) in the background, as on its callback
+      if (job.status === 'processing') {
+        EdgeRuntime.waitUntil(
+          advanceJob(job, statusData)
+            .catch((e) => console.error(`[REVIT-STATUS] Job ${jobId} could not be advanced:`, e))
+        );
+      }
+      return new Response(
+        JSON.stringify({ workItemId, status, stats: statusData.stats }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Prepare response
     const response: any = {
       workItemId,
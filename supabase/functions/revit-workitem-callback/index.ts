@@ -0,0 +1,93 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getServiceClient } from "../_shared/project-access.ts";
+import { verifyCallbackNonce } from "../_shared/callback-signature.ts";
+import { advanceJob, type Job } from "../_shared/revit-jobs.ts";
+
+// Supabase edge runtime: keeps the function alive for work that outlasts the response
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Design Automation's onComplete callback: DA posts the finished WorkItem (id, status, reportUrl, ...)
+ * to the signed URL revit-modify created. A successful result is published to ACC in the background.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const jobId = url.searchParams.get('jobId');
+    const signature = url.searchParams.get('signature');
+
+    if (!jobId || !signature) {
+      return new Response(JSON.stringify({ error: 'Missing required parameters', required: ['jobId', 'signature'] }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!(await verifyCallbackNonce(jobId, signature))) {
+      console.error(`[WORKITEM-CALLBACK] Invalid signature for job ${jobId}`);
+      return new Response(JSON.stringify({ error: 'Invalid callback signature' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const workItem = await req.json();
+    console.log(`[WORKITEM-CALLBACK] Job ${jobId} WorkItem ${workItem.id}: ${workItem.status}`);
+
+    const { data: job, error } = await getServiceClient()
+      .from('jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load job: ${error.message}`);
+
+    if (!job) {
+      return new Response(JSON.stringify({ error: 'Job not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // The signature covers the job only; the WorkItem must be the one recorded for it
+    if (job.work_item_id && workItem.id !== job.work_item_id) {
+      console.error(`[WORKITEM-CALLBACK] WorkItem ${workItem.id} does not belong to job ${jobId}`);
+      return new Response(JSON.stringify({ error: 'WorkItem does not match the job' }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Already finished (or being published after the poller got there first)
+    if (job.status !== 'processing') {
+      return new Response(JSON.stringify({ success: true, status: job.status }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Uploading to ACC can take minutes; answer DA now and publish in the background
+    EdgeRuntime.waitUntil(
+      advanceJob(job as Job, { status: workItem.status, reportUrl: workItem.reportUrl, stats: workItem.stats })
+        .catch((e) => console.error(`[WORKITEM-CALLBACK] Job ${jobId} could not be advanced:`, e))
+    );
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[WORKITEM-CALLBACK] Error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ error: message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
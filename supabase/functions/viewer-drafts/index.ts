@@ -0,0 +1,108 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { checkProjectAccess, getServiceClient, normalizeProjectId } from "../_shared/project-access.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const ACTIONS = ['get', 'save', 'delete'];
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { token, action, projectId, hubId, itemId, versionUrn, changes } = await req.json();
+
+    if (!token || !ACTIONS.includes(action) || !projectId || !itemId || !versionUrn) {
+      return new Response(JSON.stringify({ error: 'Missing required parameters', required: ['token', 'action', 'projectId', 'itemId', 'versionUrn'] }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (action === 'save' && !Array.isArray(changes)) {
+      return new Response(JSON.stringify({ error: 'changes must be an array' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // SECURITY: Validate project ID against the allowlist
+    const cleanProjectId = normalizeProjectId(projectId);
+    const { allowed, autodeskUserId } = await checkProjectAccess(token, cleanProjectId, hubId);
+    if (!allowed) {
+      console.error(`Access denied: Project ${cleanProjectId} not in allowlist`);
+      return new Response(JSON.stringify({ error: 'Access denied: This project is not authorized' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Drafts are per user; sessions started without the user-profile:read scope can't be told apart
+    if (!autodeskUserId) {
+      return new Response(JSON.stringify({ error: 'Could not identify the Autodesk user - sign in again to enable drafts' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabase = getServiceClient();
+    const scope = {
+      autodesk_user_id: autodeskUserId,
+      project_id: cleanProjectId,
+      item_id: itemId,
+      version_urn: versionUrn,
+    };
+
+    if (action === 'get') {
+      const { data, error } = await supabase
+        .from('drafts')
+        .select('*')
+        .match(scope)
+        .maybeSingle();
+      if (error) throw new Error(`Failed to load draft: ${error.message}`);
+
+      return new Response(JSON.stringify({ draft: data }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (action === 'delete') {
+      const { error } = await supabase
+        .from('drafts')
+        .delete()
+        .match(scope);
+      if (error) throw new Error(`Failed to delete draft: ${error.message}`);
+
+      return new Response(JSON.stringify({ success: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data, error } = await supabase
+      .from('drafts')
+      .upsert(
+        { ...scope, changes, updated_at: new Date().toISOString() },
+        { onConflict: 'autodesk_user_id,project_id,item_id,version_urn' }
+      )
+      .select()
+      .single();
+    if (error) throw new Error(`Failed to save draft: ${error.message}`);
+
+    console.log(`Saved draft with ${changes.length} change(s) for item ${itemId}`);
+
+    return new Response(JSON.stringify({ draft: data }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Drafts error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ error: message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
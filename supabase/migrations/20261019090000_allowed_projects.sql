@@ -0,0 +1,28 @@
+-- Projects the viewer is allowed to open.
+-- Rows with a NULL hub_id / autodesk_user_id apply to every hub / user.
+-- Admins manage access by inserting or deleting rows (dashboard or SQL editor),
+-- no redeploy of the edge functions or frontend is needed.
+CREATE TABLE public.allowed_projects (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  hub_id TEXT,
+  autodesk_user_id TEXT,
+  name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT allowed_projects_project_id_format CHECK (project_id !~ '^b\.')
+);
+
+CREATE UNIQUE INDEX allowed_projects_scope_idx
+  ON public.allowed_projects (project_id, COALESCE(hub_id, ''), COALESCE(autodesk_user_id, ''));
+
+ALTER TABLE public.allowed_projects ENABLE ROW LEVEL SECURITY;
+
+-- The viewer reads the allowlist with the anon key; writes are reserved for the service role.
+CREATE POLICY "Allowed projects are readable by everyone"
+  ON public.allowed_projects
+  FOR SELECT
+  USING (true);
+
+-- Keep the project that was previously hardcoded in the frontend and edge functions
+INSERT INTO public.allowed_projects (project_id, name)
+VALUES ('d27a6383-5881-4756-9cff-3deccd318427', 'Trial store project');
@@ -0,0 +1,19 @@
+-- Unsaved viewer edits, autosaved per user and model version so a refresh or re-login doesn't lose them.
+-- `changes` holds the pending changes exactly as the viewer sends them to revit-modify.
+-- Users are Autodesk accounts rather than Supabase users, so all access goes through the
+-- viewer-drafts edge function, which checks the Autodesk token before using the service role.
+CREATE TABLE public.drafts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  autodesk_user_id TEXT NOT NULL,
+  project_id TEXT NOT NULL,
+  item_id TEXT NOT NULL,
+  version_urn TEXT NOT NULL,
+  changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT drafts_project_id_format CHECK (project_id !~ '^b\.'),
+  CONSTRAINT drafts_scope_key UNIQUE (autodesk_user_id, project_id, item_id, version_urn)
+);
+
+-- No policies: the anon key can't read or write drafts, only the service role can.
+ALTER TABLE public.drafts ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,43 @@
+-- Which elements the viewer lets users move, decided from Revit properties (Category, Family Name,
+-- or any parameter shown in the properties panel). Rows with a NULL project_id apply to every project.
+-- Rules are checked highest priority first and the first match decides; elements no rule matches are movable.
+CREATE TABLE public.edit_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id TEXT,
+  effect TEXT NOT NULL DEFAULT 'lock',
+  property_name TEXT NOT NULL,
+  operator TEXT NOT NULL DEFAULT 'equals',
+  value TEXT,
+  -- Shown to the user when a selection is refused
+  reason TEXT,
+  priority INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT edit_rules_project_id_format CHECK (project_id !~ '^b\.'),
+  CONSTRAINT edit_rules_effect_check CHECK (effect IN ('lock', 'allow')),
+  CONSTRAINT edit_rules_operator_check CHECK (operator IN ('equals', 'contains', 'exists')),
+  CONSTRAINT edit_rules_value_check CHECK (operator = 'exists' OR value IS NOT NULL)
+);
+
+CREATE INDEX edit_rules_project_id_idx ON public.edit_rules (project_id);
+
+ALTER TABLE public.edit_rules ENABLE ROW LEVEL SECURITY;
+
+-- The viewer reads the rules with the anon key; writes are reserved for the service role.
+CREATE POLICY "Edit rules are readable by everyone"
+  ON public.edit_rules
+  FOR SELECT
+  USING (true);
+
+-- Structure and building services are never moved from the viewer, in any project
+INSERT INTO public.edit_rules (project_id, effect, property_name, operator, value, reason)
+VALUES
+  (NULL, 'lock', 'Category', 'equals', 'Structural Columns', 'Structural columns cannot be moved'),
+  (NULL, 'lock', 'Category', 'equals', 'Structural Framing', 'Structural framing cannot be moved'),
+  (NULL, 'lock', 'Category', 'equals', 'Structural Foundations', 'Foundations cannot be moved'),
+  (NULL, 'lock', 'Category', 'equals', 'Walls', 'Walls cannot be moved'),
+  (NULL, 'lock', 'Category', 'equals', 'Floors', 'Floors cannot be moved'),
+  (NULL, 'lock', 'Category', 'equals', 'Mechanical Equipment', 'MEP equipment cannot be moved'),
+  (NULL, 'lock', 'Category', 'equals', 'Electrical Equipment', 'MEP equipment cannot be moved'),
+  (NULL, 'lock', 'Category', 'equals', 'Ducts', 'MEP services cannot be moved'),
+  (NULL, 'lock', 'Category', 'equals', 'Pipes', 'MEP services cannot be moved'),
+  (NULL, 'lock', 'Category', 'equals', 'Cable Trays', 'MEP services cannot be moved');
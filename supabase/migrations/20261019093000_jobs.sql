@@ -0,0 +1,61 @@
+-- Design Automation saves, tracked server-side so they finish even if the browser tab is closed.
+-- revit-modify creates a row once the WorkItem is submitted; the revit-job-poller function checks
+-- running WorkItems on a schedule and uploads finished results to ACC.
+--
+-- status: processing (WorkItem queued or running) -> uploading (result being published to ACC)
+--         -> completed | failed
+CREATE TABLE public.jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  autodesk_user_id TEXT,
+  project_id TEXT NOT NULL,
+  item_id TEXT NOT NULL,
+  version_urn TEXT,
+  folder_urn TEXT,
+  status TEXT NOT NULL DEFAULT 'processing',
+  -- Raw Design Automation status (pending, inprogress, success, failedInstructions, ...)
+  work_item_id TEXT,
+  work_item_status TEXT,
+  bucket_key TEXT NOT NULL,
+  output_object_key TEXT NOT NULL,
+  create_new_version BOOLEAN NOT NULL DEFAULT true,
+  transform_count INTEGER NOT NULL DEFAULT 0,
+  -- revit-complete's response once published: itemId, versionId, versionNumber, fileName, ...
+  result JSONB,
+  error TEXT,
+  report_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT jobs_project_id_format CHECK (project_id !~ '^b\.'),
+  CONSTRAINT jobs_status_check CHECK (status IN ('processing', 'uploading', 'completed', 'failed'))
+);
+
+CREATE INDEX jobs_active_idx ON public.jobs (status) WHERE status IN ('processing', 'uploading');
+
+ALTER TABLE public.jobs ENABLE ROW LEVEL SECURITY;
+
+-- The viewer follows its job with the anon key (Realtime needs a SELECT policy); rows hold no tokens
+-- and are looked up by their random ID. Writes are reserved for the service role.
+CREATE POLICY "Jobs are readable by everyone"
+  ON public.jobs
+  FOR SELECT
+  USING (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.jobs;
+
+-- Poll running WorkItems every 30 seconds
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'revit-job-poller',
+  '30 seconds',
+  $$
+  SELECT net.http_post(
+    url := 'https://mbkfbmsjwlgqyzhfjwka.supabase.co/functions/v1/revit-job-poller',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb,
+    timeout_milliseconds := 5000
+  );
+  $$
+);
@@ -0,0 +1,14 @@
+-- WorkItems now report back through their onComplete callback (revit-workitem-callback);
+-- the poller only catches callbacks that never arrived, so it can run less often.
+SELECT cron.schedule(
+  'revit-job-poller',
+  '*/2 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://mbkfbmsjwlgqyzhfjwka.supabase.co/functions/v1/revit-job-poller',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb,
+    timeout_milliseconds := 5000
+  );
+  $$
+);
@@ -0,0 +1,7 @@
+-- Finer progress for the job panel, within the processing/uploading statuses:
+-- queued -> downloading -> processing (Design Automation) -> uploading -> versioning (publishing to ACC)
+ALTER TABLE public.jobs
+  ADD COLUMN stage TEXT NOT NULL DEFAULT 'queued',
+  -- Design Automation's WorkItem stats (timeQueued, timeDownloadStarted, bytesDownloaded, ...)
+  ADD COLUMN work_item_stats JSONB,
+  ADD CONSTRAINT jobs_stage_check CHECK (stage IN ('queued', 'downloading', 'processing', 'uploading', 'versioning'));
@@ -0,0 +1,4 @@
+-- Saves can be cancelled (revit-cancel) while their WorkItem is queued or running
+ALTER TABLE public.jobs DROP CONSTRAINT jobs_status_check;
+ALTER TABLE public.jobs
+  ADD CONSTRAINT jobs_status_check CHECK (status IN ('processing', 'uploading', 'completed', 'failed', 'cancelled'));
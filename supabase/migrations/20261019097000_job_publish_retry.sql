@@ -0,0 +1,9 @@
+-- Publishing a finished WorkItem to ACC can be retried (by revit-job-poller, or by hand through
+-- revit-complete) without redoing the edits. Once the file is in ACC storage the attempt records a
+-- checkpoint (storageId, fileName, size), so a retry skips the transfer and never creates a second version.
+ALTER TABLE public.jobs
+  ADD COLUMN publish_checkpoint JSONB,
+  ADD COLUMN publish_attempts INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX jobs_retryable_idx ON public.jobs (completed_at)
+  WHERE status = 'failed' AND work_item_status = 'success';
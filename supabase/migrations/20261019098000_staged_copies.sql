@@ -0,0 +1,16 @@
+-- Copies of ACC file versions in the revit-transform-temp OSS bucket, made when a version is first
+-- saved (Design Automation reads the copy). Keyed by version URN, so saving the same version again
+-- reuses its copy instead of transferring the file again. Only the edge functions (service role)
+-- read or write these.
+CREATE TABLE public.staged_copies (
+  version_urn TEXT NOT NULL PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  bucket_key TEXT NOT NULL,
+  object_key TEXT NOT NULL,
+  size BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT staged_copies_project_id_format CHECK (project_id !~ '^b\.')
+);
+
+ALTER TABLE public.staged_copies ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,3 @@
+-- The allowlist is only read by the edge functions (service role); autodesk-projects hands each user
+-- their own entries. Without a SELECT policy the anon key can no longer list everyone's rows.
+DROP POLICY "Allowed projects are readable by everyone" ON public.allowed_projects;
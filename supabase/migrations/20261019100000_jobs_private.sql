@@ -0,0 +1,38 @@
+-- Jobs are no longer readable through the table: a SELECT policy (which Realtime's postgres_changes
+-- needs) let the anon key list every user's saves. The viewer now reads its job through get_job, which
+-- only returns the row whose random ID it was handed by revit-modify, and follows it over a Realtime
+-- broadcast on that job's own topic.
+DROP POLICY "Jobs are readable by everyone" ON public.jobs;
+
+ALTER PUBLICATION supabase_realtime DROP TABLE public.jobs;
+
+CREATE OR REPLACE FUNCTION public.get_job(p_job_id UUID)
+RETURNS SETOF public.jobs
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT * FROM public.jobs WHERE id = p_job_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_job(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_job(UUID) TO anon, authenticated;
+
+-- Every change to a job is sent to the topic job:<id> as a 'job_updated' broadcast carrying the row
+CREATE OR REPLACE FUNCTION public.broadcast_job_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM realtime.send(to_jsonb(NEW), 'job_updated', 'job:' || NEW.id::text, false);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER jobs_broadcast_update
+  AFTER UPDATE ON public.jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.broadcast_job_update();
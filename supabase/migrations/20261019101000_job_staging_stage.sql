@@ -0,0 +1,6 @@
+-- revit-modify records the job before its input is ready: 'staging' while the ACC version is copied
+-- to the staging bucket, then 'queued' once the WorkItem is about to be created
+ALTER TABLE public.jobs DROP CONSTRAINT jobs_stage_check;
+ALTER TABLE public.jobs
+  ADD CONSTRAINT jobs_stage_check
+  CHECK (stage IN ('staging', 'queued', 'downloading', 'processing', 'uploading', 'versioning'));